@@ -1,10 +1,13 @@
 import React, { lazy, Suspense } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import './App.css';
+import { useSession } from './hooks/use-session';
 
 // Lazy load page components
 const Index = lazy(() => import('./pages/Index'));
+const VideoDetail = lazy(() => import('./pages/VideoDetail'));
 const NotFound = lazy(() => import('./pages/NotFound'));
+const Login = lazy(() => import('./pages/Login'));
 
 // Loading fallback component
 const PageLoader = () => (
@@ -17,11 +20,24 @@ const PageLoader = () => (
 );
 
 function App() {
+  const session = useSession();
+
+  // Every page talks to the worker's admin routes, which need a signed-in admin
+  if (session === undefined) return <PageLoader />;
+  if (!session) {
+    return (
+      <Suspense fallback={<PageLoader />}>
+        <Login />
+      </Suspense>
+    );
+  }
+
   return (
     <Router>
       <Suspense fallback={<PageLoader />}>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/videos/:id" element={<VideoDetail />} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </Suspense>
@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import type { VideoFile } from '@/lib/videos';
+import { animatedPreviewUrl, displayThumbnailUrl } from '@/lib/thumbnails';
+
+interface AnimatedThumbnailProps {
+  video: VideoFile;
+  alt: string;
+  className?: string;
+}
+
+// Still thumbnail that plays the video's animated preview while hovered.
+// The animation is only requested on first hover, then stays cached.
+export default function AnimatedThumbnail({ video, alt, className = '' }: AnimatedThumbnailProps) {
+  const [hovered, setHovered] = useState(false);
+  const [activated, setActivated] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const previewUrl = animatedPreviewUrl(video, 360);
+
+  return (
+    <div
+      className={`relative w-full h-full ${className}`}
+      onMouseEnter={() => {
+        setHovered(true);
+        setActivated(true);
+      }}
+      onMouseLeave={() => setHovered(false)}
+    >
+      <img
+        src={displayThumbnailUrl(video)}
+        alt={alt}
+        className="w-full h-full object-cover"
+        onError={(e) => {
+          e.currentTarget.style.display = 'none';
+        }}
+      />
+      {previewUrl && activated && (
+        <img
+          src={previewUrl}
+          alt=""
+          aria-hidden="true"
+          onLoad={() => setLoaded(true)}
+          className={`absolute inset-0 w-full h-full object-cover transition-opacity ${hovered && loaded ? 'opacity-100' : 'opacity-0'}`}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,42 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
 import { Button } from './ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Input } from './ui/input';
 import { Badge } from './ui/badge';
-import { Upload, Copy, Trash2, RefreshCw } from 'lucide-react';
+import { Switch } from './ui/switch';
+import { Checkbox } from './ui/checkbox';
+import { Upload, Trash2, RefreshCw, Scissors, Captions, Lock, GripVertical, Play, ImagePlus, Info, LogOut } from 'lucide-react';
 import { toast } from 'sonner';
-import { Progress } from './ui/progress';
+import ImportFromUrl from './ImportFromUrl';
+import UploadQueue from './UploadQueue';
+import LibraryHealth from './LibraryHealth';
+import UploadPreflight from './UploadPreflight';
+import FrameScrubber from './FrameScrubber';
+import TrimEditor from './TrimEditor';
+import CaptionManager from './CaptionManager';
+import VideoMetadataEditor from './VideoMetadataEditor';
+import CollectionsPanel from './CollectionsPanel';
+import VideoContainer from './VideoContainer';
+import LibraryToolbar from './LibraryToolbar';
+import BulkActionsBar from './BulkActionsBar';
+import TrashPanel from './TrashPanel';
+import ThumbnailUploader from './ThumbnailUploader';
+import AnimatedThumbnail from './AnimatedThumbnail';
+import TemplateGallery from './TemplateGallery';
+import EmbedsPanel from './EmbedsPanel';
 import { supabase } from '@/integrations/supabase/client';
+import { setRequireSignedUrls } from '@/lib/stream';
+import { TRASH_RETENTION_DAYS, moveToTrash } from '@/lib/trash';
+import { fetchEmbedVideos, type Embed, type EmbedSource } from '@/lib/embeds';
+import { hasCustomThumbnail } from '@/lib/thumbnails';
+import { formatDuration, formatFileSize } from '@/lib/format';
+import { useUploadQueue } from '@/hooks/use-upload-queue';
+import { useProcessingStatus } from '@/hooks/use-processing-status';
+import { useDragReorder } from '@/hooks/use-drag-reorder';
+import { useSelection } from '@/hooks/use-selection';
+import { isProcessing, videoAltText, type VideoFile } from '@/lib/videos';
+import { buildLibraryRequest, isManualOrder, parseLibraryQuery, toSearchParams, type LibraryQuery } from '@/lib/library-query';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -18,185 +48,158 @@ import {
   AlertDialogTitle,
 } from './ui/alert-dialog';
 
-interface VideoFile {
-  id: string;
-  uid: string;
-  name: string;
-  stream_url: string;
-  thumbnail_url?: string;
-  size: number;
-  duration: number;
-  status: string;
-  created_at: string;
-}
-
 export default function BucketManager() {
-  const STREAM_API_TOKEN = 'nz3V5siUHVPhnjJxYm_cHdWiV-kNCRC-9gYsl1DQ';
-  const STREAM_ACCOUNT_ID = 'b5f7bbc74ed9bf4c44b19d1f3b937e22';
-  const STREAM_CUSTOMER_CODE = 'aanhjdlw75bwi5za';
-  const STREAM_API_BASE = `https://api.cloudflare.com/client/v4/accounts/${STREAM_ACCOUNT_ID}/stream`;
-  
   const [videos, setVideos] = useState<VideoFile[]>([]);
   const [loading, setLoading] = useState(false);
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [page, setPage] = useState(0);
+  const [totalCount, setTotalCount] = useState(0);
   const [filesToUpload, setFilesToUpload] = useState<File[]>([]);
-  const [currentUploadIndex, setCurrentUploadIndex] = useState(0);
+  const [filesToInspect, setFilesToInspect] = useState<File[]>([]);
+  const [concurrency, setConcurrency] = useState(3);
   const [videoToDelete, setVideoToDelete] = useState<VideoFile | null>(null);
   const [deleting, setDeleting] = useState(false);
   const [thumbnailTime, setThumbnailTime] = useState<{video: VideoFile, time: number} | null>(null);
   const [framePreview, setFramePreview] = useState<{video: VideoFile, currentTime: number} | null>(null);
+  const [trimVideo, setTrimVideo] = useState<VideoFile | null>(null);
+  const [posterVideo, setPosterVideo] = useState<VideoFile | null>(null);
+  const [gallery, setGallery] = useState<{ source: EmbedSource; embed?: Embed } | null>(null);
+  const [captionVideoId, setCaptionVideoId] = useState<string | null>(null);
+  const [playlistPreviewOpen, setPlaylistPreviewOpen] = useState(false);
+  // Bumped when the library changes in ways the collections and trash panels must refetch for
+  const [panelsVersion, setPanelsVersion] = useState(0);
+
+  // Search, filters and sort live in the URL so filtered views can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => parseLibraryQuery(searchParams), [searchParams]);
+  const setQuery = useCallback((next: LibraryQuery) => {
+    setSearchParams(toSearchParams(next), { replace: true });
+  }, [setSearchParams]);
+  const manualOrder = isManualOrder(query);
 
-  // Fetch videos from Supabase
+  // Fetch the first page of videos matching the current query
   const fetchVideos = useCallback(async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('videos')
-        .select('*')
-        .order('created_at', { ascending: false });
+      const { data, error, count } = await buildLibraryRequest(query, 0);
       
       if (error) throw error;
       setVideos(data || []);
+      setTotalCount(count ?? 0);
+      setPage(0);
     } catch (error) {
       console.error('Failed to fetch videos:', error);
       toast.error('Failed to fetch videos from database');
       setVideos([]);
+      setTotalCount(0);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [query]);
 
   useEffect(() => {
     fetchVideos();
   }, [fetchVideos]);
 
-  const uploadVideos = async () => {
-    if (filesToUpload.length === 0) return;
-    
-    setUploading(true);
-    
+  const loadMoreVideos = async () => {
+    setLoadingMore(true);
     try {
-      for (let i = 0; i < filesToUpload.length; i++) {
-        const file = filesToUpload[i];
-        setCurrentUploadIndex(i);
-        setUploadProgress(10);
-        
-        // Validate file type
-        if (!file.type.startsWith('video/')) {
-          throw new Error(`${file.name} is not a valid video file. Please select video files only.`);
-        }
-        
-        console.log('Uploading video:', file.name, 'Type:', file.type, 'Size:', file.size);
-        
-        // Step 1: Upload to Cloudflare Stream
-        const formData = new FormData();
-        formData.append('file', file);
-        
-        setUploadProgress(30);
-        const response = await fetch(`${STREAM_API_BASE}`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${STREAM_API_TOKEN}`,
-          },
-          body: formData
-        });
-        
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error('Cloudflare Stream upload error:', errorData);
-          throw new Error(errorData.errors?.[0]?.message || `Upload failed: ${response.statusText}`);
-        }
-        
-        const result = await response.json();
-        const videoData = result.result;
-        
-        setUploadProgress(70);
-        
-        // Step 2: Save to Supabase
-        const { error } = await supabase.from('videos').insert({
-          uid: videoData.uid,
-          name: videoData.meta?.name || file.name,
-          stream_url: `https://customer-${STREAM_CUSTOMER_CODE}.cloudflarestream.com/${videoData.uid}/iframe`,
-          thumbnail_url: `https://customer-${STREAM_CUSTOMER_CODE}.cloudflarestream.com/${videoData.uid}/thumbnails/thumbnail.jpg`,
-          size: videoData.size || 0,
-          duration: videoData.duration || 0,
-          status: typeof videoData.status === 'object' ? videoData.status.state : 'ready'
-        });
-        
-        if (error) throw error;
-        
-        setUploadProgress(100);
-        toast.success(`${file.name} uploaded!`);
-      }
-      
-      setFilesToUpload([]);
-      setUploadProgress(0);
-      setCurrentUploadIndex(0);
-      fetchVideos();
-    } catch (error: any) {
-      console.error('Upload failed:', error);
-      toast.error(`Upload failed: ${error.message || 'Unknown error'}`);
-      setUploadProgress(0);
+      const { data, error, count } = await buildLibraryRequest(query, page + 1);
+      if (error) throw error;
+
+      // Rows can shift between pages while uploads land, so skip any already shown
+      setVideos(prev => [...prev, ...(data || []).filter(video => !prev.some(v => v.id === video.id))]);
+      setTotalCount(count ?? 0);
+      setPage(page + 1);
+    } catch (error) {
+      console.error('Failed to load more videos:', error);
+      toast.error('Failed to load more videos');
     } finally {
-      setUploading(false);
+      setLoadingMore(false);
     }
   };
 
+  // Keep processing badges live until Stream finishes transcoding
+  useProcessingStatus(videos, (uid, updates) => {
+    setVideos(prev => prev.map(video => video.uid === uid ? { ...video, ...updates } : video));
+  });
+
+  // Persist a dragged order in one call; new uploads keep position 0 and show first
+  const saveVideoOrder = async (ids: string[]) => {
+    try {
+      const { error } = await supabase.rpc('reorder_videos', { video_ids: ids });
+      if (error) throw error;
+      setVideos(prev => prev.map(video => ({ ...video, position: ids.indexOf(video.id) + 1 })));
+    } catch (error) {
+      console.error('Failed to save order:', error);
+      toast.error(`Failed to save order: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      fetchVideos();
+    }
+  };
+
+  const videoIds = useMemo(() => videos.map(video => video.id), [videos]);
+  const selection = useSelection(videoIds);
+  const selectedVideos = videos.filter(video => selection.selectedIds.has(video.id));
+  const clearSelection = selection.clear;
+
+  // A new query shows a different set of videos, so start a fresh selection
+  useEffect(() => {
+    clearSelection();
+  }, [query, clearSelection]);
+
+  const reorder = useDragReorder({ items: videos, setItems: setVideos, onReorder: saveVideoOrder });
+
+  // Library order, as the playlist preview and generated carousels play it
+  const playlistVideos = videos.filter(video => !video.require_signed_urls);
+
+  const uploadQueue = useUploadQueue({
+    concurrency,
+    onItemDone: (item) => {
+      toast.success(`${item.file.name} uploaded!`);
+      fetchVideos();
+    },
+  });
+
+  // Files go through the pre-flight review before they reach the queue
+  const uploadVideos = () => {
+    if (filesToUpload.length === 0) return;
+    setFilesToInspect(filesToUpload);
+  };
+
+  // Deleting only moves the video to the Trash; Stream keeps the file until it is purged
   const deleteVideo = async (video: VideoFile) => {
     setDeleting(true);
     try {
-      // Delete from Cloudflare Stream
-      const response = await fetch(`${STREAM_API_BASE}/${video.uid}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${STREAM_API_TOKEN}`,
-          'Content-Type': 'application/json'
-        }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Delete failed: ${response.statusText}`);
-      }
-      
-      // Delete from Supabase
-      const { error } = await supabase
-        .from('videos')
-        .delete()
-        .eq('uid', video.uid);
-      
-      if (error) throw error;
+      await moveToTrash([video.id]);
       
-      toast.success('Video deleted successfully!');
+      toast.success('Moved to Trash');
       setVideoToDelete(null);
       fetchVideos();
-    } catch (error: any) {
+      setPanelsVersion(version => version + 1);
+    } catch (error) {
       console.error('Delete failed:', error);
-      toast.error(`Failed to delete: ${error.message}`);
+      toast.error(`Failed to delete: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setDeleting(false);
     }
   };
 
-  const copyToClipboard = async (text: string) => {
+  // Private videos need a playback token from the worker before they will play
+  const setVideoPrivate = async (video: VideoFile, required: boolean) => {
     try {
-      if (navigator.clipboard && window.isSecureContext) {
-        await navigator.clipboard.writeText(text);
-        return true;
-      } else {
-        const textArea = document.createElement('textarea');
-        textArea.value = text;
-        textArea.style.position = 'fixed';
-        textArea.style.left = '-999999px';
-        document.body.appendChild(textArea);
-        textArea.select();
-        const successful = document.execCommand('copy');
-        textArea.remove();
-        return successful;
-      }
+      await setRequireSignedUrls(video.uid, required);
+
+      const { error } = await supabase
+        .from('videos')
+        .update({ require_signed_urls: required })
+        .eq('uid', video.uid);
+      if (error) throw error;
+
+      setVideos(prev => prev.map(v => v.uid === video.uid ? { ...v, require_signed_urls: required } : v));
+      toast.success(required ? 'Video is now private' : 'Video is now public');
     } catch (error) {
-      console.error('Failed to copy:', error);
-      throw error;
+      console.error('Failed to update playback access:', error);
+      toast.error(`Failed to update playback access: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
@@ -209,7 +212,7 @@ export default function BucketManager() {
       const { error: updateError } = await supabase
         .from('videos')
         .update({ 
-          thumbnail_time: timeInSeconds
+          thumbnail_time: Number(timeInSeconds.toFixed(3))
         })
         .eq('uid', video.uid);
       
@@ -229,325 +232,26 @@ export default function BucketManager() {
     }
   };
 
-  const generateCodeSnippet = async () => {
-    if (videos.length === 0) {
-      toast.error('No videos to generate code for. Please upload some videos first.');
+  // Carousels are generated per collection or selection; videos play in the order given
+  const generateCodeSnippet = (carouselVideos: VideoFile[], collection?: EmbedSource['collection']) => {
+    if (carouselVideos.length === 0) {
+      toast.error('No videos to generate code for. Add some videos to the collection first.');
       return;
     }
+    setGallery({ source: { videos: carouselVideos, collection } });
+  };
 
-    // Transform videos to match glass-video-carousel.html format
-    const videoData = videos.map(video => ({
-      streamId: video.uid,
-      name: video.name,
-      thumbnailTime: video.thumbnail_time // Include custom thumbnail time
-    }));
-
-    // Read the glass template (simplified version - just the critical parts)
-    const htmlCode = `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Glass Video Carousel</title>
-    <style>
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body { background: transparent; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
-        .carousel-container { width: 100%; max-width: 800px; margin: 0 auto; padding: 20px; }
-        .video-player-container { width: 100%; border-radius: 16px; overflow: hidden; border: 1px solid rgba(255, 255, 255, 0.1); display: flex; flex-direction: column; }
-        .video-wrapper { position: relative; width: 100%; aspect-ratio: 1920/1398; border-radius: 16px 16px 0 0; overflow: hidden; background: #000; }
-        .stream-iframe { width: 100%; height: 100%; border: none; cursor: pointer; }
-        .controls-panel { backdrop-filter: blur(8px); background: rgba(0, 0, 0, 0.3); border-radius: 0 0 16px 16px; padding: 16px 20px; display: flex; align-items: center; }
-        .controls-inner { 
-            display: flex; 
-            align-items: center; 
-            justify-content: space-between; 
-            gap: 16px; 
-            width: 100%; 
-            padding: 0 20px; 
-        }
-        .thumbnail-carousel { 
-            display: flex; 
-            align-items: center; 
-            gap: 8px; 
-            overflow-x: auto; 
-            overflow-y: hidden;
-            flex: 1; 
-            justify-content: flex-start; 
-            scrollbar-width: none;
-            -ms-overflow-style: none;
-            max-width: calc(100% - 100px);
-            scroll-behavior: smooth;
-        }
-        .thumbnail-carousel::-webkit-scrollbar { display: none; }
-        .thumbnail-item { 
-            flex-shrink: 0; 
-            width: 60px; 
-            height: 42px; 
-            border-radius: 6px; 
-            overflow: hidden; 
-            cursor: pointer; 
-            transition: border-color 0.2s ease; 
-            border: 2px solid transparent; 
-        }
-        .thumbnail-item:hover { 
-            border-color: rgba(255, 255, 255, 0.4); 
-        }
-        .thumbnail-item.active { 
-            border-color: rgba(255, 255, 255, 0.9); 
-            box-shadow: 0 0 8px rgba(255, 255, 255, 0.2); 
-        }
-        .thumbnail-img { width: 100%; height: 100%; object-fit: cover; background: rgba(0, 0, 0, 0.3); }
-        .btn { backdrop-filter: blur(8px); background: rgba(0, 0, 0, 0.3); border: 1px solid rgba(255, 255, 255, 0.15); border-radius: 10px; cursor: pointer; display: flex; align-items: center; justify-content: center; transition: all 0.2s; width: 36px; height: 36px; }
-        .btn:hover { background: rgba(0, 0, 0, 0.45); transform: scale(1.05); }
-        svg { width: 22px; height: 22px; stroke: white; fill: none; stroke-width: 2; }
-        
-        /* Responsive design */
-        @media (max-width: 768px) {
-            .carousel-container { padding: 10px; }
-            .controls-panel { padding: 12px 16px; }
-            .controls-inner { padding: 0 16px; gap: 12px; }
-            .thumbnail-carousel { max-width: calc(100% - 80px); }
-            .thumbnail-item { width: 50px; height: 35px; }
-        }
-        
-        @media (max-width: 480px) {
-            .carousel-container { padding: 8px; }
-            .controls-panel { padding: 10px 12px; }
-            .controls-inner { padding: 0 12px; gap: 8px; }
-            .thumbnail-carousel { max-width: calc(100% - 70px); }
-            .thumbnail-item { width: 45px; height: 32px; }
-        }
-    </style>
-    <!-- Preload video streams for faster navigation -->
-    ${videoData.map(video => 
-        `<link rel="preload" href="https://customer-${STREAM_CUSTOMER_CODE}.cloudflarestream.com/${video.streamId}/iframe?preload=true" as="document">`
-    ).join('')}
-</head>
-<body>
-    <div class="carousel-container">
-        <div class="video-player-container">
-            <div class="video-wrapper">
-                <iframe id="streamPlayer" class="stream-iframe" loading="lazy" allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;" allowfullscreen="true"></iframe>
-            </div>
-            <div class="controls-panel">
-                <div class="controls-inner">
-                    <button class="btn" id="prevBtn"><svg><polyline points="15 18 9 12 15 6"></polyline></svg></button>
-                    <div class="thumbnail-carousel" id="thumbnailCarousel"></div>
-                    <button class="btn" id="nextBtn"><svg><polyline points="9 18 15 12 9 6"></polyline></svg></button>
-                </div>
-            </div>
-        </div>
-    </div>
-    <script>
-        var vids = ${JSON.stringify(videoData)};
-        var currentIndex = 0;
-        var streamDomain = "customer-${STREAM_CUSTOMER_CODE}.cloudflarestream.com";
-        var streamPlayer = document.getElementById('streamPlayer');
-        var thumbnailCarousel = document.getElementById('thumbnailCarousel');
-        
-        function buildStreamUrl(streamId, thumbnailTime) {
-            var url = \`https://\${streamDomain}/\${streamId}/iframe?preload=true\`;
-            if (thumbnailTime !== null && thumbnailTime !== undefined) {
-                var posterUrl = \`https://\${streamDomain}/\${streamId}/thumbnails/thumbnail.jpg?time=\${thumbnailTime}s&height=600\`;
-                url += \`&poster=\${encodeURIComponent(posterUrl)}\`;
-            }
-            return url;
-        }
-        
-        function buildThumbnailUrl(streamId) {
-            return \`https://\${streamDomain}/\${streamId}/thumbnails/thumbnail.jpg?time=0&height=60\`;
-        }
-        
-        function buildMainThumbnailUrl(streamId) {
-            return \`https://\${streamDomain}/\${streamId}/thumbnails/thumbnail.jpg?time=0&height=400\`;
-        }
-        
-        function createThumbnails() {
-            thumbnailCarousel.innerHTML = '';
-            vids.forEach(function(vid, index) {
-                var div = document.createElement('div');
-                div.className = 'thumbnail-item' + (index === currentIndex ? ' active' : '');
-                div.onclick = function() { jumpToVideo(index); };
-                
-                // Create thumbnail image directly
-                var img = document.createElement('img');
-                img.className = 'thumbnail-img';
-                img.loading = 'lazy';
-                img.onload = function() {
-                    // Image loaded successfully
-                };
-                img.onerror = function() {
-                    // Try alternative thumbnail URL
-                    var altUrl = buildThumbnailUrl(vid.streamId).replace('thumbnail.jpg', 'thumbnail.png');
-                    img.src = altUrl;
-                    img.onerror = function() {
-                        // Show fallback icon
-                        img.style.display = 'none';
-                        var fallback = document.createElement('div');
-                        fallback.className = 'thumbnail-fallback';
-                        fallback.textContent = '📹';
-                        fallback.style.cssText = 'width: 100%; height: 100%; display: flex; align-items: center; justify-content: center; background: rgba(0,0,0,0.5); color: white; font-size: 16px;';
-                        div.appendChild(fallback);
-                    };
-                };
-                // Use custom thumbnail time if available, otherwise use default
-                if (vid.thumbnailTime !== null && vid.thumbnailTime !== undefined) {
-                    img.src = \`https://\${streamDomain}/\${vid.streamId}/thumbnails/thumbnail.jpg?time=\${vid.thumbnailTime}s&height=60\`;
-                } else {
-                    img.src = buildThumbnailUrl(vid.streamId);
-                }
-                div.appendChild(img);
-                thumbnailCarousel.appendChild(div);
-            });
-        }
-        
-        // Preload videos for smooth navigation
-        function preloadVideos() {
-            vids.forEach(function(vid, index) {
-                if (index === currentIndex) return; // Skip current video
-                
-                // Create hidden iframe to preload video
-                var preloadIframe = document.createElement('iframe');
-                preloadIframe.style.display = 'none';
-                preloadIframe.style.width = '1px';
-                preloadIframe.style.height = '1px';
-                preloadIframe.src = buildStreamUrl(vid.streamId, vid.thumbnailTime) + '&autoplay=false&controls=false';
-                preloadIframe.allow = 'accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;';
-                
-                // Add to body temporarily
-                document.body.appendChild(preloadIframe);
-                
-                // Remove after a short delay to avoid memory issues
-                setTimeout(function() {
-                    if (preloadIframe.parentNode) {
-                        preloadIframe.parentNode.removeChild(preloadIframe);
-                    }
-                }, 3000);
-            });
-        }
-        
-        // Preload adjacent videos for instant navigation
-        function preloadAdjacentVideos() {
-            var prevIndex = (currentIndex - 1 + vids.length) % vids.length;
-            var nextIndex = (currentIndex + 1) % vids.length;
-            
-            // Preload previous video
-            if (prevIndex !== currentIndex) {
-                var prevIframe = document.createElement('iframe');
-                prevIframe.style.display = 'none';
-                prevIframe.style.width = '1px';
-                prevIframe.style.height = '1px';
-                prevIframe.src = buildStreamUrl(vids[prevIndex].streamId, vids[prevIndex].thumbnailTime) + '&autoplay=false&controls=false';
-                prevIframe.allow = 'accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;';
-                document.body.appendChild(prevIframe);
-                
-                setTimeout(function() {
-                    if (prevIframe.parentNode) {
-                        prevIframe.parentNode.removeChild(prevIframe);
-                    }
-                }, 2000);
-            }
-            
-            // Preload next video
-            if (nextIndex !== currentIndex) {
-                var nextIframe = document.createElement('iframe');
-                nextIframe.style.display = 'none';
-                nextIframe.style.width = '1px';
-                nextIframe.style.height = '1px';
-                nextIframe.src = buildStreamUrl(vids[nextIndex].streamId, vids[nextIndex].thumbnailTime) + '&autoplay=false&controls=false';
-                nextIframe.allow = 'accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;';
-                document.body.appendChild(nextIframe);
-                
-                setTimeout(function() {
-                    if (nextIframe.parentNode) {
-                        nextIframe.parentNode.removeChild(nextIframe);
-                    }
-                }, 2000);
-            }
-        }
-        
-        function jumpToVideo(index) {
-            currentIndex = index;
-            var currentVideo = vids[index];
-            
-            // Use Cloudflare Stream's native poster system with time-based thumbnails
-            streamPlayer.src = buildStreamUrl(currentVideo.streamId, currentVideo.thumbnailTime);
-            
-            updateThumbnails();
-            
-            // Preload adjacent videos for smooth navigation
-            setTimeout(function() {
-                preloadAdjacentVideos();
-            }, 500);
-        }
-        
-        function updateThumbnails() {
-            var thumbnails = thumbnailCarousel.querySelectorAll('.thumbnail-item');
-            thumbnails.forEach(function(thumb, i) {
-                thumb.className = 'thumbnail-item' + (i === currentIndex ? ' active' : '');
-            });
-            
-            // Auto-scroll to keep active thumbnail in view
-            var activeThumbnail = thumbnailCarousel.querySelector('.thumbnail-item.active');
-            if (activeThumbnail) {
-                var carouselRect = thumbnailCarousel.getBoundingClientRect();
-                var thumbnailRect = activeThumbnail.getBoundingClientRect();
-                var scrollLeft = thumbnailCarousel.scrollLeft;
-                
-                // Check if thumbnail is outside left edge
-                if (thumbnailRect.left < carouselRect.left) {
-                    thumbnailCarousel.scrollLeft = scrollLeft - (carouselRect.left - thumbnailRect.left) - 20;
-                }
-                // Check if thumbnail is outside right edge
-                else if (thumbnailRect.right > carouselRect.right) {
-                    thumbnailCarousel.scrollLeft = scrollLeft + (thumbnailRect.right - carouselRect.right) + 20;
-                }
-            }
-        }
-        
-        function nextVideo() {
-            jumpToVideo((currentIndex + 1) % vids.length);
-        }
-        
-        function prevVideo() {
-            jumpToVideo((currentIndex - 1 + vids.length) % vids.length);
-        }
-        
-        document.getElementById('prevBtn').onclick = prevVideo;
-        document.getElementById('nextBtn').onclick = nextVideo;
-        
-        
-        createThumbnails();
-        jumpToVideo(0);
-        
-        // Preload all videos for smooth navigation
-        setTimeout(function() {
-            preloadVideos();
-        }, 1000); // Wait 1 second after initial load
-    </script>
-</body>
-</html>`;
-    
+  // Restyle a published embed against the videos it currently plays
+  const editEmbed = async (embed: Embed) => {
     try {
-      await copyToClipboard(htmlCode);
-      toast.success('✓ HTML Copied!', {
-        description: 'Glass video carousel ready to paste',
-        duration: 2000
-      });
+      const embedVideos = await fetchEmbedVideos(embed);
+      setGallery({ source: { videos: embedVideos, collection: null }, embed });
     } catch (error) {
-      console.error('Failed to copy:', error);
-      toast.error('Copy failed. Please try again');
+      console.error('Failed to load embed videos:', error);
+      toast.error(`Failed to load embed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
-  };
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50">
       <div className="max-w-6xl mx-auto p-6 space-y-6">
@@ -558,6 +262,10 @@ export default function BucketManager() {
           <p className="text-lg text-orange-700/70 max-w-2xl mx-auto">
             Upload videos, manage your library, and generate HTML code
           </p>
+          <Button variant="ghost" size="sm" onClick={() => supabase.auth.signOut()} className="text-orange-700">
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out
+          </Button>
         </div>
 
         {/* Upload Section */}
@@ -579,34 +287,46 @@ export default function BucketManager() {
                     toast.warning('Some files were skipped - only video files are allowed');
                   }
                   setFilesToUpload(videoFiles);
+                  e.target.value = '';
                 }}
-                disabled={uploading}
                 className="flex-1"
               />
+              <select
+                value={concurrency}
+                onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+                className="rounded-md border border-input bg-background px-2 text-sm"
+                title="Files uploaded at once"
+              >
+                {[1, 2, 3, 4, 5].map(n => (
+                  <option key={n} value={n}>{n} at a time</option>
+                ))}
+              </select>
               <Button 
                 onClick={uploadVideos}
-                disabled={filesToUpload.length === 0 || uploading}
+                disabled={filesToUpload.length === 0}
                 className="bg-orange-500 hover:bg-orange-600 text-white"
               >
                 <Upload className="w-4 h-4 mr-2" />
-                {uploading ? 'Uploading...' : `Upload${filesToUpload.length > 1 ? ` ${filesToUpload.length}` : ''}`}
+                {`Upload${filesToUpload.length > 1 ? ` ${filesToUpload.length}` : ''}`}
               </Button>
             </div>
             
-            {filesToUpload.length > 0 && !uploading && (
+            {filesToUpload.length > 0 && (
               <p className="text-sm text-orange-600">
                 {filesToUpload.length} file{filesToUpload.length > 1 ? 's' : ''} selected
               </p>
             )}
             
-            {uploading && uploadProgress > 0 && (
-              <div className="space-y-2">
-                <Progress value={uploadProgress} className="h-2" />
-                <p className="text-sm text-orange-600 text-center">
-                  File {currentUploadIndex + 1} of {filesToUpload.length}: {uploadProgress}% uploaded
-                </p>
-              </div>
-            )}
+            <UploadQueue
+              items={uploadQueue.items}
+              onCancel={uploadQueue.cancel}
+              onRetry={uploadQueue.retry}
+              onClearFinished={uploadQueue.clearFinished}
+            />
+
+            <div className="border-t border-orange-200/50 pt-4">
+              <ImportFromUrl onImported={fetchVideos} />
+            </div>
           </CardContent>
         </Card>
 
@@ -614,71 +334,180 @@ export default function BucketManager() {
         <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
           <CardHeader>
             <CardTitle className="flex items-center justify-between text-orange-800">
-              <span>Video Library ({videos.length})</span>
-              <div className="flex gap-2">
-                <Button 
-                  onClick={fetchVideos} 
-                  disabled={loading}
+              <span>Video Library ({totalCount})</span>
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={() => setPlaylistPreviewOpen(true)}
+                  disabled={playlistVideos.length === 0}
                   variant="outline"
                   size="sm"
                 >
-                  <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                  <Play className="w-4 h-4 mr-2" />
+                  Preview
                 </Button>
                 <Button 
-                  onClick={generateCodeSnippet}
-                  disabled={videos.length === 0}
-                  className="bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white"
+                  onClick={fetchVideos} 
+                  disabled={loading}
+                  variant="outline"
                   size="sm"
                 >
-                  <Copy className="w-4 h-4 mr-2" />
-                  Generate HTML
+                  <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
                 </Button>
               </div>
             </CardTitle>
           </CardHeader>
-          <CardContent>
+          <CardContent className="space-y-4">
+            <LibraryToolbar query={query} onChange={setQuery} />
+            <BulkActionsBar
+              selectedVideos={selectedVideos}
+              totalLoaded={videos.length}
+              onSelectAll={selection.selectAll}
+              onClear={selection.clear}
+              onGenerate={generateCodeSnippet}
+              onChanged={() => {
+                fetchVideos();
+                setPanelsVersion(version => version + 1);
+              }}
+            />
             {loading ? (
               <p className="text-center text-orange-600">Loading videos...</p>
             ) : videos.length === 0 ? (
-              <p className="text-center text-orange-600">No videos yet. Upload your first video above!</p>
+              <p className="text-center text-orange-600">
+                {manualOrder ? 'No videos yet. Upload your first video above!' : 'No videos match these filters.'}
+              </p>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {videos.map((video) => (
-                  <Card key={video.id} className="overflow-hidden border border-orange-200/50">
+                  <Card
+                    key={video.id}
+                    {...reorder.itemProps(video.id)}
+                    className={`overflow-hidden border border-orange-200/50 ${reorder.draggedId === video.id ? 'opacity-50' : ''} ${selection.selectedIds.has(video.id) ? 'ring-2 ring-orange-500' : ''}`}
+                  >
                     <div className="relative aspect-video bg-black">
-                      {video.thumbnail_url ? (
-                        <img 
-                          src={video.thumbnail_url} 
-                          alt={video.name}
-                          className="w-full h-full object-cover"
-                          onError={(e) => {
-                            e.currentTarget.style.display = 'none';
-                          }}
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center text-white">
-                          No thumbnail
-                        </div>
+                      <Checkbox
+                        checked={selection.selectedIds.has(video.id)}
+                        onClick={(e) => selection.toggle(video.id, e.shiftKey)}
+                        className="absolute top-2 right-2 z-10 h-5 w-5 border-white bg-black/50 data-[state=checked]:bg-orange-500 data-[state=checked]:border-orange-500"
+                        aria-label={`Select ${video.name}`}
+                        title="Select (shift-click for a range)"
+                      />
+                      {manualOrder && (
+                        <button
+                          type="button"
+                          {...reorder.handleProps(video.id)}
+                          className="absolute top-2 left-2 z-10 rounded bg-black/50 p-1 text-white cursor-grab active:cursor-grabbing"
+                          title="Drag to reorder"
+                          aria-label="Drag to reorder"
+                        >
+                          <GripVertical className="w-4 h-4" />
+                        </button>
+                      )}
+                      <Link to={`/videos/${video.id}`} className="block w-full h-full" draggable={false}>
+                        {video.thumbnail_url ? (
+                          <AnimatedThumbnail video={video} alt={videoAltText(video)} />
+                        ) : (
+                          <div className="w-full h-full flex items-center justify-center text-white">
+                            No thumbnail
+                          </div>
+                        )}
+                      </Link>
+                      {hasCustomThumbnail(video) && (
+                        <Badge className="absolute bottom-2 left-2 bg-black/60 text-white hover:bg-black/60">Custom</Badge>
                       )}
+                      <button
+                        type="button"
+                        onClick={() => setPosterVideo(video)}
+                        className="absolute bottom-2 right-2 rounded bg-black/50 p-1 text-white hover:bg-black/70"
+                        title="Upload a custom thumbnail"
+                        aria-label="Upload a custom thumbnail"
+                      >
+                        <ImagePlus className="w-4 h-4" />
+                      </button>
                     </div>
                     <CardContent className="p-4 space-y-2">
-                      <h3 className="font-medium text-orange-800 truncate">{video.name}</h3>
+                      <div className="flex items-start gap-2">
+                        <div className="flex-1 min-w-0">
+                          <VideoMetadataEditor
+                            video={video}
+                            onSaved={(updates) => setVideos(prev => prev.map(v => v.id === video.id ? { ...v, ...updates } : v))}
+                          />
+                        </div>
+                        <Link to={`/videos/${video.id}`} title="Open details" aria-label={`Open details for ${video.name}`}>
+                          <Info className="w-4 h-4 text-orange-700 hover:text-orange-900" />
+                        </Link>
+                        {video.require_signed_urls && (
+                          <Lock className="w-4 h-4 text-orange-700" aria-label="Private" />
+                        )}
+                        {video.clip_of && (
+                          <Badge variant="outline" title={`${video.clip_start}s – ${video.clip_end}s of the source video`}>
+                            Clip
+                          </Badge>
+                        )}
+                      </div>
                       <div className="flex items-center justify-between text-sm text-orange-600/70">
-                        <span>{formatFileSize(video.size)}</span>
-                        <Badge variant="secondary">{video.status}</Badge>
+                        <span>
+                          {formatFileSize(video.size)}
+                          {video.duration > 0 && ` · ${formatDuration(video.duration)}`}
+                          {video.width && video.height && ` · ${video.width}×${video.height}`}
+                        </span>
+                        {isProcessing(video) ? (
+                          <Badge variant="secondary" className="bg-amber-100 text-amber-700">
+                            processing{video.processing_progress != null && ` ${Math.round(video.processing_progress)}%`}
+                          </Badge>
+                        ) : video.status === 'error' ? (
+                          <Badge variant="destructive" title={video.error_reason || undefined}>error</Badge>
+                        ) : (
+                          <Badge variant="secondary">{video.status}</Badge>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 flex-wrap">
+                        {(video.video_captions || []).map(track => (
+                          <Badge key={track.language} variant="outline" title={track.label}>
+                            CC {track.language}
+                          </Badge>
+                        ))}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs text-orange-700"
+                          onClick={() => setCaptionVideoId(video.id)}
+                        >
+                          <Captions className="w-3 h-3 mr-1" />
+                          {video.video_captions?.length ? 'Edit captions' : 'Add captions'}
+                        </Button>
                       </div>
+                      <label className="flex items-center justify-between text-sm text-orange-700">
+                        <span>Require signed URLs</span>
+                        <Switch
+                          checked={video.require_signed_urls}
+                          onCheckedChange={(checked) => setVideoPrivate(video, checked)}
+                        />
+                      </label>
+                      {video.status === 'error' && video.error_reason && (
+                        <p className="text-xs text-red-600">{video.error_reason}</p>
+                      )}
                       <div className="flex gap-2">
                         <Button
                           variant="outline"
                           size="sm"
                           className="flex-1"
                           onClick={() => {
-                            setFramePreview({ video, currentTime: 1 });
+                            setFramePreview({ video, currentTime: video.thumbnail_time ?? Math.min(1, video.duration > 0 ? video.duration : 0) });
                           }}
                         >
                           <Upload className="w-4 h-4 mr-2" />
                           Set Frame
                         </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-1"
+                          onClick={() => setTrimVideo(video)}
+                          disabled={isProcessing(video)}
+                        >
+                          <Scissors className="w-4 h-4 mr-2" />
+                          Trim
+                        </Button>
                         <Button
                           variant="destructive"
                           size="sm"
@@ -694,18 +523,48 @@ export default function BucketManager() {
                 ))}
               </div>
             )}
+            {!loading && videos.length < totalCount && (
+              <div className="flex justify-center">
+                <Button variant="outline" onClick={loadMoreVideos} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : `Load more (${totalCount - videos.length} remaining)`}
+                </Button>
+              </div>
+            )}
           </CardContent>
         </Card>
+
+        {/* Collections */}
+        <CollectionsPanel videos={videos} onGenerate={generateCodeSnippet} refreshKey={panelsVersion} />
+
+        {/* Embeds */}
+        <EmbedsPanel refreshKey={panelsVersion} onEdit={editEmbed} />
+
+        {/* Library Health */}
+        <LibraryHealth onChanged={fetchVideos} />
+
+        {/* Trash */}
+        <TrashPanel refreshKey={panelsVersion} onRestored={fetchVideos} />
       </div>
 
+      {/* Pre-upload Inspection */}
+      <UploadPreflight
+        files={filesToInspect}
+        onCancel={() => setFilesToInspect([])}
+        onConfirm={(entries) => {
+          uploadQueue.enqueue(entries);
+          setFilesToInspect([]);
+          setFilesToUpload([]);
+        }}
+      />
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!videoToDelete} onOpenChange={() => setVideoToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Delete Video?</AlertDialogTitle>
+            <AlertDialogTitle>Move to Trash?</AlertDialogTitle>
             <AlertDialogDescription>
-              This will permanently delete "{videoToDelete?.name}" from Cloudflare Stream and the database.
-              This action cannot be undone.
+              "{videoToDelete?.name}" can be restored from the Trash for {TRASH_RETENTION_DAYS} days,
+              after which it is deleted from Cloudflare Stream for good.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -715,7 +574,7 @@ export default function BucketManager() {
               disabled={deleting}
               className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
             >
-              {deleting ? 'Deleting...' : 'Delete'}
+              {deleting ? 'Moving...' : 'Move to Trash'}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
@@ -727,91 +586,16 @@ export default function BucketManager() {
           <AlertDialogHeader>
             <AlertDialogTitle>Select Thumbnail Frame for "{framePreview?.video.name}"</AlertDialogTitle>
             <AlertDialogDescription>
-              Scrub through the video to find the perfect frame for your thumbnail.
+              Pick a frame from the filmstrip, then fine-tune it with the slider or the arrow keys.
             </AlertDialogDescription>
           </AlertDialogHeader>
           
           {framePreview && (
-            <div className="space-y-4">
-              {/* Large Thumbnail Preview */}
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Thumbnail Preview:</label>
-                <div className="relative aspect-video bg-gray-100 rounded-lg overflow-hidden border">
-                  <iframe
-                    key={`preview-${framePreview.currentTime}`}
-                    src={`https://customer-${STREAM_CUSTOMER_CODE}.cloudflarestream.com/${framePreview.video.uid}/iframe?poster=${encodeURIComponent(`https://customer-${STREAM_CUSTOMER_CODE}.cloudflarestream.com/${framePreview.video.uid}/thumbnails/thumbnail.jpg?time=${framePreview.currentTime}s&height=400`)}&controls=false&autoplay=false`}
-                    className="w-full h-full"
-                    allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;"
-                    allowFullScreen
-                  />
-                </div>
-              </div>
-              
-              {/* Time Controls */}
-              <div className="space-y-2">
-                <label className="text-sm font-medium">Current Time: {framePreview.currentTime.toFixed(1)}s</label>
-                <input
-                  type="range"
-                  min="0"
-                  max={Math.max(framePreview.video.duration || 60, 60)}
-                  step="0.1"
-                  value={framePreview.currentTime}
-                  onChange={(e) => setFramePreview({
-                    ...framePreview,
-                    currentTime: parseFloat(e.target.value)
-                  })}
-                  className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
-                />
-                <div className="flex justify-between text-xs text-gray-500">
-                  <span>0s</span>
-                  <span>{Math.max(framePreview.video.duration || 60, 60)}s</span>
-                </div>
-              </div>
-              
-              {/* Quick Time Buttons */}
-              <div className="flex gap-2 flex-wrap">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setFramePreview({
-                    ...framePreview,
-                    currentTime: 1
-                  })}
-                >
-                  1s
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setFramePreview({
-                    ...framePreview,
-                    currentTime: 5
-                  })}
-                >
-                  5s
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setFramePreview({
-                    ...framePreview,
-                    currentTime: 10
-                  })}
-                >
-                  10s
-                </Button>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setFramePreview({
-                    ...framePreview,
-                    currentTime: Math.max(framePreview.video.duration || 60, 60) / 2
-                  })}
-                >
-                  Middle
-                </Button>
-              </div>
-            </div>
+            <FrameScrubber
+              video={framePreview.video}
+              time={framePreview.currentTime}
+              onTimeChange={(currentTime) => setFramePreview({ ...framePreview, currentTime })}
+            />
           )}
           
           <AlertDialogFooter>
@@ -823,6 +607,7 @@ export default function BucketManager() {
                   setFramePreview(null);
                 }
               }}
+              disabled={!(framePreview?.video.duration > 0)}
               className="bg-orange-500 hover:bg-orange-600 text-white"
             >
               Use This Frame
@@ -831,13 +616,65 @@ export default function BucketManager() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Playlist Preview */}
+      <AlertDialog open={playlistPreviewOpen} onOpenChange={setPlaylistPreviewOpen}>
+        <AlertDialogContent className="max-w-4xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Playlist Preview</AlertDialogTitle>
+            <AlertDialogDescription>
+              The library in its current order. Private videos are left out because they need a playback token.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {playlistPreviewOpen && (
+            <VideoContainer
+              urls={playlistVideos.map(video => video.stream_url)}
+              textTracks={playlistVideos.map(video =>
+                (video.video_captions || []).map(track => ({ srclang: track.language, label: track.label }))
+              )}
+              title="Library"
+            />
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Close</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Trim Editor */}
+      <TrimEditor video={trimVideo} onClose={() => setTrimVideo(null)} onCreated={fetchVideos} />
+
+      {/* Template Gallery */}
+      <TemplateGallery
+        source={gallery?.source ?? null}
+        embed={gallery?.embed}
+        onClose={() => setGallery(null)}
+        onEmbedsChanged={() => setPanelsVersion(version => version + 1)}
+      />
+
+      {/* Custom Thumbnail */}
+      <ThumbnailUploader
+        video={posterVideo}
+        onClose={() => setPosterVideo(null)}
+        onSaved={(updates) => {
+          setVideos(prev => prev.map(v => v.id === posterVideo?.id ? { ...v, ...updates } : v));
+          setPanelsVersion(version => version + 1);
+        }}
+      />
+
+      {/* Caption Tracks */}
+      <CaptionManager
+        video={videos.find(video => video.id === captionVideoId) || null}
+        onClose={() => setCaptionVideoId(null)}
+        onChanged={fetchVideos}
+      />
+
       {/* Thumbnail Frame Confirmation Dialog */}
       <AlertDialog open={!!thumbnailTime} onOpenChange={() => setThumbnailTime(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Set Thumbnail Frame?</AlertDialogTitle>
             <AlertDialogDescription>
-              Set frame at {thumbnailTime?.time}s as thumbnail for "{thumbnailTime?.video.name}"?
+              Set frame at {thumbnailTime?.time.toFixed(2)}s as thumbnail for "{thumbnailTime?.video.name}"?
               This will use that frame from the video as the thumbnail.
             </AlertDialogDescription>
           </AlertDialogHeader>
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Copy, FolderPlus, ImageOff, Tag, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { moveToTrash, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { resetThumbnail } from '@/lib/thumbnails';
+import { parseTags, type VideoFile } from '@/lib/videos';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface BulkActionsBarProps {
+  selectedVideos: VideoFile[];
+  totalLoaded: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onGenerate: (videos: VideoFile[]) => void;
+  // Videos or collections changed and should be refetched
+  onChanged: () => void;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : 'Unknown error');
+
+export default function BulkActionsBar({
+  selectedVideos,
+  totalLoaded,
+  onSelectAll,
+  onClear,
+  onGenerate,
+  onChanged,
+}: BulkActionsBarProps) {
+  const [collections, setCollections] = useState<Pick<Tables<'collections'>, 'id' | 'name'>[]>([]);
+  const [collectionId, setCollectionId] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [working, setWorking] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  const count = selectedVideos.length;
+
+  useEffect(() => {
+    if (count === 0) return;
+    supabase
+      .from('collections')
+      .select('id, name')
+      .order('name', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) console.warn('Failed to load collections:', error);
+        setCollections(data || []);
+      });
+  }, [count]);
+
+  const runBulk = async (action: string, work: () => Promise<void>, success: string) => {
+    setWorking(true);
+    try {
+      await work();
+      toast.success(success);
+      onChanged();
+    } catch (error) {
+      console.error(`Failed to ${action}:`, error);
+      toast.error(`Failed to ${action}: ${errorMessage(error)}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const addToCollection = () =>
+    runBulk('add to collection', async () => {
+      const { data: existing, error: readError } = await supabase
+        .from('collection_videos')
+        .select('video_id, position')
+        .eq('collection_id', collectionId);
+      if (readError) throw readError;
+
+      // New members go to the end, in the order they were selected from the library
+      const present = new Set(existing.map(item => item.video_id));
+      const start = existing.reduce((max, item) => Math.max(max, item.position + 1), 0);
+      const rows = selectedVideos
+        .filter(video => !present.has(video.id))
+        .map((video, index) => ({ collection_id: collectionId, video_id: video.id, position: start + index }));
+      if (rows.length === 0) return;
+
+      const { error } = await supabase.from('collection_videos').insert(rows);
+      if (error) throw error;
+    }, `Added ${count} video${count === 1 ? '' : 's'} to "${collections.find(c => c.id === collectionId)?.name}"`);
+
+  const addTags = () => {
+    const tags = parseTags(tagInput);
+    if (tags.length === 0) return;
+
+    return runBulk('tag videos', async () => {
+      const results = await Promise.all(selectedVideos.map(video =>
+        supabase
+          .from('videos')
+          .update({ tags: parseTags([...(video.tags || []), ...tags].join(',')) })
+          .eq('id', video.id)
+      ));
+      const failed = results.find(result => result.error);
+      if (failed) throw failed.error;
+      setTagInput('');
+    }, `Tagged ${count} video${count === 1 ? '' : 's'}`);
+  };
+
+  // Back to Stream's default frame, dropping chosen frames and uploaded posters alike
+  const resetThumbnails = () =>
+    runBulk('reset thumbnails', async () => {
+      await Promise.all(selectedVideos.map(video => resetThumbnail(video, { clearFrame: true })));
+    }, `Reset ${count} thumbnail${count === 1 ? '' : 's'}`);
+
+  const trashSelected = async () => {
+    setConfirmDelete(false);
+    await runBulk('move to Trash', () => moveToTrash(selectedVideos.map(video => video.id)),
+      `Moved ${count} video${count === 1 ? '' : 's'} to the Trash`);
+    onClear();
+  };
+
+  return (
+    <>
+      {count > 0 && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-orange-300 bg-orange-50 p-3">
+          <span className="text-sm font-medium text-orange-800">{count} selected</span>
+          {count < totalLoaded && (
+            <Button variant="ghost" size="sm" onClick={onSelectAll}>Select all {totalLoaded}</Button>
+          )}
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+
+          <div className="flex flex-wrap items-center gap-2 ml-auto">
+            <Button
+              size="sm"
+              onClick={() => onGenerate(selectedVideos)}
+              className="bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white"
+            >
+              <Copy className="w-4 h-4 mr-2" />
+              Generate HTML
+            </Button>
+
+            <div className="flex gap-1">
+              <select
+                value={collectionId}
+                onChange={(e) => setCollectionId(e.target.value)}
+                className="rounded-md border border-input bg-background px-2 text-sm h-9"
+              >
+                <option value="">Collection...</option>
+                {collections.map(collection => (
+                  <option key={collection.id} value={collection.id}>{collection.name}</option>
+                ))}
+              </select>
+              <Button variant="outline" size="sm" onClick={addToCollection} disabled={!collectionId || working}>
+                <FolderPlus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+
+            <form
+              className="flex gap-1"
+              onSubmit={(e) => {
+                e.preventDefault();
+                addTags();
+              }}
+            >
+              <Input
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="Tags"
+                className="h-9 w-32"
+              />
+              <Button type="submit" variant="outline" size="sm" disabled={!tagInput.trim() || working}>
+                <Tag className="w-4 h-4 mr-2" />
+                Tag
+              </Button>
+            </form>
+
+            <Button variant="outline" size="sm" onClick={resetThumbnails} disabled={working}>
+              <ImageOff className="w-4 h-4 mr-2" />
+              Reset thumbnails
+            </Button>
+
+            <Button variant="destructive" size="sm" onClick={() => setConfirmDelete(true)} disabled={working}>
+              <Trash2 className="w-4 h-4 mr-2" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Bulk Trash Confirmation */}
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Move {count} video{count === 1 ? '' : 's'} to the Trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They can be restored from the Trash for {TRASH_RETENTION_DAYS} days, after which they are deleted for good.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={trashSelected}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,141 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { CAPTION_LANGUAGES, deleteStreamCaption, uploadStreamCaption, type CaptionTrack } from '@/lib/captions';
+import type { VideoFile } from '@/lib/videos';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface CaptionManagerProps {
+  video: VideoFile | null;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export default function CaptionManager({ video, onClose, onChanged }: CaptionManagerProps) {
+  const [language, setLanguage] = useState(CAPTION_LANGUAGES[0].language);
+  const [captionFile, setCaptionFile] = useState<File | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const tracks = video?.video_captions || [];
+
+  const uploadCaption = async () => {
+    if (!video || !captionFile) return;
+    setBusy(true);
+    try {
+      const label = CAPTION_LANGUAGES.find(option => option.language === language)?.label || language;
+      await uploadStreamCaption(video.uid, language, captionFile);
+
+      const { error } = await supabase
+        .from('video_captions')
+        .upsert({ video_id: video.id, language, label }, { onConflict: 'video_id,language' });
+      if (error) throw error;
+
+      toast.success(`${label} captions added`);
+      setCaptionFile(null);
+      onChanged();
+    } catch (error) {
+      console.error('Caption upload failed:', error);
+      toast.error(`Caption upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const removeCaption = async (track: CaptionTrack) => {
+    if (!video) return;
+    setBusy(true);
+    try {
+      await deleteStreamCaption(video.uid, track.language);
+
+      const { error } = await supabase
+        .from('video_captions')
+        .delete()
+        .eq('video_id', video.id)
+        .eq('language', track.language);
+      if (error) throw error;
+
+      toast.success(`${track.label} captions removed`);
+      onChanged();
+    } catch (error) {
+      console.error('Caption delete failed:', error);
+      toast.error(`Failed to remove captions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!video} onOpenChange={() => !busy && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Captions for "{video?.name}"</AlertDialogTitle>
+          <AlertDialogDescription>
+            Upload WebVTT (.vtt) or SubRip (.srt) files. The first track is turned on by default in embeds.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          {tracks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No caption tracks yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {tracks.map(track => (
+                <li key={track.language} className="flex items-center gap-2 rounded-lg border p-2">
+                  <Badge variant="secondary">{track.language}</Badge>
+                  <span className="flex-1 text-sm">{track.label}</span>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={busy} onClick={() => removeCaption(track)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="rounded-md border border-input bg-background px-2 text-sm"
+              disabled={busy}
+            >
+              {CAPTION_LANGUAGES.map(option => (
+                <option key={option.language} value={option.language}>{option.label}</option>
+              ))}
+            </select>
+            <Input
+              type="file"
+              accept=".vtt,.srt,text/vtt"
+              onChange={(e) => setCaptionFile(e.target.files?.[0] || null)}
+              disabled={busy}
+              className="flex-1"
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={busy}>Close</AlertDialogCancel>
+          <Button
+            onClick={uploadCaption}
+            disabled={busy || !captionFile}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {busy ? 'Saving...' : 'Add Track'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,290 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Input } from './ui/input';
+import { ArrowDown, ArrowUp, ArrowUpDown, Copy, FolderPlus, Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { COLLECTION_SELECT, collectionVideos, libraryOrderOf, type Collection } from '@/lib/collections';
+import type { VideoFile } from '@/lib/videos';
+import { displayThumbnailUrl } from '@/lib/thumbnails';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface CollectionsPanelProps {
+  videos: VideoFile[];
+  // Passes the collection too, so an embed published from it can follow it
+  onGenerate: (videos: VideoFile[], collection: Collection) => void;
+  // Changes whenever collections were edited elsewhere, e.g. by bulk actions
+  refreshKey?: number;
+}
+
+export default function CollectionsPanel({ videos, onGenerate, refreshKey }: CollectionsPanelProps) {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [newName, setNewName] = useState('');
+  const [videoToAdd, setVideoToAdd] = useState('');
+  const [collectionToDelete, setCollectionToDelete] = useState<Collection | null>(null);
+
+  const fetchCollections = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('collections')
+        .select(COLLECTION_SELECT)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setCollections(data || []);
+    } catch (error) {
+      console.error('Failed to fetch collections:', error);
+      toast.error('Failed to fetch collections');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCollections();
+  }, [fetchCollections, refreshKey]);
+
+  const selected = collections.find(collection => collection.id === selectedId) || null;
+  const members = selected ? collectionVideos(selected, videos) : [];
+  const available = videos.filter(video => !members.some(member => member.id === video.id));
+
+  const runMutation = async (action: string, mutation: () => PromiseLike<{ error: Error | null }>) => {
+    try {
+      const { error } = await mutation();
+      if (error) throw error;
+      await fetchCollections();
+      return true;
+    } catch (error) {
+      console.error(`Failed to ${action}:`, error);
+      toast.error(`Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  };
+
+  const createCollection = async () => {
+    const name = newName.trim();
+    if (!name) return;
+
+    const { data, error } = await supabase.from('collections').insert({ name }).select().single();
+    if (error) {
+      console.error('Failed to create collection:', error);
+      toast.error(`Failed to create collection: ${error.message}`);
+      return;
+    }
+
+    setNewName('');
+    setSelectedId(data.id);
+    await fetchCollections();
+  };
+
+  const deleteCollection = async (collection: Collection) => {
+    const deleted = await runMutation('delete collection', () =>
+      supabase.from('collections').delete().eq('id', collection.id)
+    );
+    if (deleted) {
+      if (selectedId === collection.id) setSelectedId(null);
+      toast.success(`Deleted "${collection.name}"`);
+    }
+    setCollectionToDelete(null);
+  };
+
+  const addVideo = async () => {
+    if (!selected || !videoToAdd) return;
+    const position = selected.collection_videos.reduce((max, item) => Math.max(max, item.position + 1), 0);
+
+    const added = await runMutation('add video', () =>
+      supabase.from('collection_videos').insert({ collection_id: selected.id, video_id: videoToAdd, position })
+    );
+    if (added) setVideoToAdd('');
+  };
+
+  const removeVideo = (videoId: string) =>
+    runMutation('remove video', () =>
+      supabase.from('collection_videos').delete().eq('collection_id', selected.id).eq('video_id', videoId)
+    );
+
+  // Renumber the whole collection in one upsert so positions stay contiguous
+  const saveOrder = (order: string[]) =>
+    runMutation('reorder collection', () =>
+      supabase
+        .from('collection_videos')
+        .upsert(order.map((videoId, position) => ({ collection_id: selected.id, video_id: videoId, position })))
+    );
+
+  const moveVideo = (index: number, offset: number) => {
+    const order = members.map(member => member.id);
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    return saveOrder(order);
+  };
+
+  const sortByLibraryOrder = () => saveOrder(libraryOrderOf(members).map(video => video.id));
+
+  return (
+    <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+      <CardHeader>
+        <CardTitle className="text-orange-800">Collections ({collections.length})</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createCollection();
+          }}
+        >
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="New collection, e.g. Product page hero"
+            className="flex-1"
+          />
+          <Button type="submit" disabled={!newName.trim()} variant="outline">
+            <FolderPlus className="w-4 h-4 mr-2" />
+            Create
+          </Button>
+        </form>
+
+        {loading && collections.length === 0 ? (
+          <p className="text-center text-orange-600">Loading collections...</p>
+        ) : collections.length === 0 ? (
+          <p className="text-sm text-orange-600">
+            No collections yet. Create one for each carousel you publish.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {collections.map(collection => (
+              <Button
+                key={collection.id}
+                size="sm"
+                variant={collection.id === selectedId ? 'default' : 'outline'}
+                className={collection.id === selectedId ? 'bg-orange-500 hover:bg-orange-600 text-white' : ''}
+                onClick={() => setSelectedId(collection.id)}
+              >
+                {collection.name} ({collectionVideos(collection, videos).length})
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {selected && (
+          <div className="space-y-3 rounded-lg border border-orange-200/50 p-4">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="font-medium text-orange-800 truncate">{selected.name}</h3>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => onGenerate(members, selected)}
+                  disabled={members.length === 0}
+                  className="bg-gradient-to-r from-orange-500 to-amber-600 hover:from-orange-600 hover:to-amber-700 text-white"
+                >
+                  <Copy className="w-4 h-4 mr-2" />
+                  Generate HTML
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={sortByLibraryOrder}
+                  disabled={members.length < 2}
+                  title="Use the library order"
+                >
+                  <ArrowUpDown className="w-4 h-4" />
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => setCollectionToDelete(selected)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {members.length === 0 ? (
+              <p className="text-sm text-orange-600">This collection is empty. Add videos from the library below.</p>
+            ) : (
+              <ol className="space-y-2">
+                {members.map((video, index) => (
+                  <li key={video.id} className="flex items-center gap-3 rounded-md border p-2">
+                    <span className="w-6 text-center text-sm text-orange-600/70">{index + 1}</span>
+                    {video.thumbnail_url && (
+                      <img src={displayThumbnailUrl(video)} alt="" className="h-9 w-16 rounded object-cover bg-black" />
+                    )}
+                    <span className="flex-1 truncate text-sm text-orange-800">{video.name}</span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveVideo(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveVideo(index, 1)}
+                      disabled={index === members.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => removeVideo(video.id)} aria-label="Remove">
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex gap-2">
+              <select
+                value={videoToAdd}
+                onChange={(e) => setVideoToAdd(e.target.value)}
+                className="flex-1 rounded-md border border-input bg-background px-2 py-2 text-sm"
+              >
+                <option value="">Add a video shown in the library...</option>
+                {available.map(video => (
+                  <option key={video.id} value={video.id}>{video.name}</option>
+                ))}
+              </select>
+              <Button variant="outline" onClick={addVideo} disabled={!videoToAdd}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!collectionToDelete} onOpenChange={() => setCollectionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Collection?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes "{collectionToDelete?.name}". The videos stay in the library.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => collectionToDelete && deleteCollection(collectionToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
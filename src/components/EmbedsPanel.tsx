@@ -0,0 +1,160 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Code, ExternalLink, FileCode, Palette, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  EMBED_SELECT,
+  deleteEmbed,
+  embedIframeSnippet,
+  embedPageUrl,
+  embedScriptSnippet,
+  type Embed,
+} from '@/lib/embeds';
+import { copyToClipboard } from '@/lib/clipboard';
+import { getTemplate } from '@/templates';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface EmbedsPanelProps {
+  // Changes whenever embeds were published or edited elsewhere
+  refreshKey?: number;
+  onEdit: (embed: Embed) => void;
+}
+
+// Hosted embeds: the worker renders them from the current library on every load
+export default function EmbedsPanel({ refreshKey, onEdit }: EmbedsPanelProps) {
+  const [embeds, setEmbeds] = useState<Embed[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [embedToDelete, setEmbedToDelete] = useState<Embed | null>(null);
+
+  const fetchEmbeds = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('embeds')
+        .select(EMBED_SELECT)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setEmbeds(data || []);
+    } catch (error) {
+      console.error('Failed to fetch embeds:', error);
+      toast.error('Failed to fetch embeds');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEmbeds();
+  }, [fetchEmbeds, refreshKey]);
+
+  const copySnippet = async (snippet: string, label: string) => {
+    try {
+      if (await copyToClipboard(snippet)) {
+        toast.success(`${label} copied to clipboard`);
+      } else {
+        toast.error('Copy failed. Please try again');
+      }
+    } catch (error) {
+      console.error('Failed to copy:', error);
+      toast.error('Copy failed. Please try again');
+    }
+  };
+
+  const removeEmbed = async (embed: Embed) => {
+    try {
+      await deleteEmbed(embed);
+      toast.success(`Deleted "${embed.name}"`);
+      fetchEmbeds();
+    } catch (error) {
+      console.error('Failed to delete embed:', error);
+      toast.error(`Failed to delete embed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-orange-800">
+          <span>Embeds ({embeds.length})</span>
+          <Button onClick={fetchEmbeds} disabled={loading} variant="outline" size="sm">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {embeds.length === 0 ? (
+          <p className="text-sm text-orange-600">
+            No embeds yet. Use "Publish embed" when generating HTML to get a snippet that stays up to date with the library.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {embeds.map(embed => (
+              <li key={embed.id} className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+                <div className="flex-1 min-w-[200px]">
+                  <p className="truncate text-sm font-medium text-orange-800">{embed.name}</p>
+                  <p className="text-xs text-orange-600/70">
+                    {getTemplate(embed.template_id).name} ·{' '}
+                    {embed.collection_id
+                      ? `follows "${embed.collections?.name}"`
+                      : `${embed.video_ids.length} video${embed.video_ids.length === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => copySnippet(embedScriptSnippet(embed), 'Script tag')}>
+                  <FileCode className="w-4 h-4 mr-2" />
+                  Script
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => copySnippet(embedIframeSnippet(embed), 'Iframe code')}>
+                  <Code className="w-4 h-4 mr-2" />
+                  Iframe
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onEdit(embed)} aria-label="Edit look" title="Edit look">
+                  <Palette className="w-4 h-4" />
+                </Button>
+                <Button asChild variant="ghost" size="sm">
+                  <a href={embedPageUrl(embed)} target="_blank" rel="noreferrer" aria-label="Open" title="Open">
+                    <ExternalLink className="w-4 h-4" />
+                  </a>
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEmbedToDelete(embed)} aria-label="Delete">
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!embedToDelete} onOpenChange={() => setEmbedToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{embedToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Pages that embed it will stop showing the carousel. The videos themselves are not affected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => embedToDelete && removeEmbed(embedToDelete)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Copy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { buildExportFormats, type ExportInput } from '@/lib/export-formats';
+import { copyToClipboard } from '@/lib/clipboard';
+import { downloadFile } from '@/lib/download';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface ExportDialogProps {
+  // What to export; null closes the dialog
+  input: ExportInput | null;
+  onClose: () => void;
+}
+
+export default function ExportDialog({ input, onClose }: ExportDialogProps) {
+  const [formatId, setFormatId] = useState('html');
+
+  const formats = useMemo(() => (input ? buildExportFormats(input) : []), [input]);
+  const format = formats.find(item => item.id === formatId) || formats[0];
+
+  const copyFormat = async () => {
+    try {
+      if (await copyToClipboard(format.code)) {
+        toast.success(`✓ ${format.name} Copied!`, { duration: 2000 });
+      } else {
+        toast.error('Copy failed. Please try again');
+      }
+    } catch (error) {
+      console.error('Failed to copy:', error);
+      toast.error('Copy failed. Please try again');
+    }
+  };
+
+  const downloadFormat = () => {
+    downloadFile(format.filename, format.code, format.mimeType);
+    toast.success(`Downloaded ${format.filename}`, { duration: 2000 });
+  };
+
+  return (
+    <AlertDialog open={!!input} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Export "{input?.title}"</AlertDialogTitle>
+          <AlertDialogDescription>
+            {input?.template.name} with your options, in the format your site needs.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {format && (
+          <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+            <div role="radiogroup" className="space-y-2">
+              {formats.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={format.id === item.id}
+                  onClick={() => setFormatId(item.id)}
+                  className={`w-full rounded-lg border-2 px-3 py-2 text-left text-sm font-medium text-orange-800 transition-colors ${format.id === item.id ? 'border-orange-500 bg-orange-50' : 'border-orange-200/50 hover:border-orange-300'}`}
+                >
+                  {item.name}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-3 min-w-0">
+              <div>
+                <p className="text-sm text-orange-800">{format.description}</p>
+                {format.note && <p className="text-xs text-orange-600/80 mt-1">{format.note}</p>}
+              </div>
+              {format.code !== null && (
+                <>
+                  <Textarea
+                    readOnly
+                    value={format.code}
+                    onFocus={(e) => e.target.select()}
+                    className="h-80 font-mono text-xs"
+                    aria-label={`${format.name} code`}
+                  />
+                  <div className="flex gap-2">
+                    <Button onClick={copyFormat} className="bg-orange-500 hover:bg-orange-600 text-white">
+                      <Copy className="w-4 h-4 mr-2" />
+                      Copy
+                    </Button>
+                    <Button variant="outline" onClick={downloadFormat}>
+                      <Download className="w-4 h-4 mr-2" />
+                      Download {format.filename}
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel>Done</AlertDialogCancel>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
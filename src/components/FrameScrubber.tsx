@@ -0,0 +1,158 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { buildFrameUrl } from '@/lib/stream';
+import { formatDuration } from '@/lib/format';
+import type { VideoFile } from '@/lib/videos';
+
+interface FrameScrubberProps {
+  video: VideoFile;
+  time: number;
+  onTimeChange: (time: number) => void;
+  label?: string;
+  // Highlight a selected span of the timeline, e.g. a trim range
+  range?: [number, number];
+}
+
+const FILMSTRIP_FRAMES = 12;
+// Stream does not report a frame rate, so stepping assumes the common 30fps
+const FRAME_STEP = 1 / 30;
+// Wait for the slider to settle before fetching a new preview image
+const PREVIEW_DELAY_MS = 150;
+
+const formatTime = (seconds: number) => `${formatDuration(seconds)}.${String(Math.floor((seconds % 1) * 100)).padStart(2, '0')}`;
+
+// Frame preview, filmstrip and timeline, shared by the thumbnail picker and the trim editor
+export default function FrameScrubber({ video, time, onTimeChange, label = 'Thumbnail Preview:', range }: FrameScrubberProps) {
+  const duration = video.duration > 0 ? video.duration : 0;
+  const [previewTime, setPreviewTime] = useState(time);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setPreviewTime(time), PREVIEW_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [time]);
+
+  // Evenly spaced storyboard, each frame taken from the middle of its slot
+  const filmstrip = useMemo(
+    () => duration > 0
+      ? Array.from({ length: FILMSTRIP_FRAMES }, (_, i) => ((i + 0.5) * duration) / FILMSTRIP_FRAMES)
+      : [],
+    [duration],
+  );
+
+  const seek = (next: number) => onTimeChange(Math.min(Math.max(next, 0), duration));
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const steps: Record<string, number> = {
+      ArrowLeft: -FRAME_STEP,
+      ArrowRight: FRAME_STEP,
+      PageDown: -10,
+      PageUp: 10,
+    };
+
+    if (e.key in steps) {
+      seek(time + steps[e.key] * (e.shiftKey && e.key.startsWith('Arrow') ? 30 : 1));
+    } else if (e.key === 'Home') {
+      seek(0);
+    } else if (e.key === 'End') {
+      seek(duration);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  if (duration === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Frames can be picked once Stream has finished processing this video.
+      </p>
+    );
+  }
+
+  const slotLength = duration / FILMSTRIP_FRAMES;
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="space-y-4 rounded-lg outline-none focus-visible:ring-2 focus-visible:ring-orange-400"
+    >
+      {/* Large Frame Preview */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium">{label}</label>
+        <div className="relative aspect-video bg-black rounded-lg overflow-hidden border">
+          <img
+            src={buildFrameUrl(video.uid, previewTime, 480)}
+            alt={`Frame at ${formatTime(previewTime)}`}
+            className="w-full h-full object-contain"
+          />
+        </div>
+      </div>
+
+      {/* Filmstrip */}
+      <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${FILMSTRIP_FRAMES}, minmax(0, 1fr))` }}>
+        {filmstrip.map((frameTime, index) => {
+          const active = time >= index * slotLength && time < (index + 1) * slotLength;
+          return (
+            <button
+              key={index}
+              type="button"
+              tabIndex={-1}
+              onClick={() => seek(frameTime)}
+              className={`aspect-video overflow-hidden rounded border-2 bg-black ${active ? 'border-orange-500' : 'border-transparent hover:border-orange-300'}`}
+              title={formatTime(frameTime)}
+            >
+              <img
+                src={buildFrameUrl(video.uid, frameTime, 80)}
+                alt=""
+                loading="lazy"
+                className="w-full h-full object-cover"
+              />
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Time Controls */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium">Current Time: {formatTime(time)}</label>
+          <div className="flex gap-1">
+            <Button type="button" variant="outline" size="sm" onClick={() => seek(time - FRAME_STEP)} aria-label="Previous frame">
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => seek(time + FRAME_STEP)} aria-label="Next frame">
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="relative">
+          <input
+            type="range"
+            min="0"
+            max={duration}
+            step={FRAME_STEP}
+            value={time}
+            onChange={(e) => seek(parseFloat(e.target.value))}
+            className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
+          />
+          {range && (
+            <div
+              className="absolute top-0 h-2 rounded-lg bg-orange-300/70 pointer-events-none"
+              style={{
+                left: `${(range[0] / duration) * 100}%`,
+                width: `${(Math.max(range[1] - range[0], 0) / duration) * 100}%`,
+              }}
+            />
+          )}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>0:00</span>
+          <span className="hidden sm:inline">← → one frame · Shift+← → one second · PgUp/PgDn ten seconds</span>
+          <span>{formatDuration(duration)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
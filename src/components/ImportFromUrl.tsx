@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { buildVideoRow, copyFromUrl } from '@/lib/stream';
+
+interface ImportFromUrlProps {
+  onImported: () => void;
+}
+
+interface ImportResult {
+  url: string;
+  ok: boolean;
+  message?: string;
+}
+
+// Use the last path segment as the library name, e.g. ".../promo-v2.mp4" -> "promo-v2.mp4"
+const nameFromUrl = (url: string) => {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+  return decodeURIComponent(segments[segments.length - 1] || url);
+};
+
+const parseUrls = (text: string) => {
+  const lines = text.split(/\s+/).map(line => line.trim()).filter(Boolean);
+  const valid: string[] = [];
+  const invalid: string[] = [];
+
+  lines.forEach(line => {
+    try {
+      const url = new URL(line);
+      if (url.protocol === 'http:' || url.protocol === 'https:') {
+        valid.push(line);
+      } else {
+        invalid.push(line);
+      }
+    } catch {
+      invalid.push(line);
+    }
+  });
+
+  return { valid: Array.from(new Set(valid)), invalid };
+};
+
+export default function ImportFromUrl({ onImported }: ImportFromUrlProps) {
+  const [urlText, setUrlText] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<ImportResult[]>([]);
+
+  const importUrls = async () => {
+    const { valid, invalid } = parseUrls(urlText);
+    if (invalid.length > 0) {
+      toast.warning(`Skipped ${invalid.length} invalid URL${invalid.length > 1 ? 's' : ''}`);
+    }
+    if (valid.length === 0) return;
+
+    setImporting(true);
+    const batchResults: ImportResult[] = [];
+
+    // Each URL is imported on its own so one bad link doesn't stop the rest
+    for (const url of valid) {
+      try {
+        const name = nameFromUrl(url);
+        const videoData = await copyFromUrl(url, name);
+
+        const { error } = await supabase.from('videos').insert(buildVideoRow(videoData, name));
+        if (error) throw error;
+
+        batchResults.push({ url, ok: true });
+      } catch (error) {
+        console.error('Import failed:', url, error);
+        batchResults.push({ url, ok: false, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      setResults([...batchResults]);
+    }
+
+    const imported = batchResults.filter(result => result.ok).length;
+    if (imported > 0) {
+      toast.success(`Imported ${imported} video${imported > 1 ? 's' : ''}`, {
+        description: 'Stream is fetching and processing them now'
+      });
+      onImported();
+    }
+    if (imported < batchResults.length) {
+      toast.error(`${batchResults.length - imported} import${batchResults.length - imported > 1 ? 's' : ''} failed`);
+    }
+
+    // Keep only the URLs that failed so they can be fixed and retried
+    setUrlText(batchResults.filter(result => !result.ok).map(result => result.url).join('\n'));
+    setImporting(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-orange-800">Import from URL</label>
+      <Textarea
+        value={urlText}
+        onChange={(e) => setUrlText(e.target.value)}
+        placeholder={'https://cdn.example.com/videos/demo.mp4\nOne URL per line'}
+        disabled={importing}
+        rows={3}
+      />
+      <div className="flex justify-end">
+        <Button
+          onClick={importUrls}
+          disabled={importing || urlText.trim() === ''}
+          variant="outline"
+        >
+          <Link2 className="w-4 h-4 mr-2" />
+          {importing ? 'Importing...' : 'Import'}
+        </Button>
+      </div>
+
+      {results.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {results.map(result => (
+            <li key={result.url} className={result.ok ? 'text-green-700' : 'text-red-600'}>
+              <span className="truncate">{result.ok ? '✓' : '✗'} {result.url}</span>
+              {result.message && <span className="block text-xs">{result.message}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Badge } from './ui/badge';
+import { Activity, Download, Link2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  buildStreamUrl,
+  buildThumbnailUrl,
+  buildProcessingUpdate,
+  buildVideoRow,
+  deleteStreamVideo,
+  listStreamVideos,
+  type StreamVideo,
+} from '@/lib/stream';
+import { fetchAllVideoRows, reconcileLibrary, type ReconcileReport } from '@/lib/reconcile';
+import type { VideoFile } from '@/lib/videos';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface LibraryHealthProps {
+  onChanged: () => void;
+}
+
+type PendingDelete =
+  | { kind: 'stream'; video: StreamVideo }
+  | { kind: 'row'; row: VideoFile };
+
+const streamVideoName = (video: StreamVideo) => video.meta?.name || video.uid;
+
+export default function LibraryHealth({ onChanged }: LibraryHealthProps) {
+  const [report, setReport] = useState<ReconcileReport | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [relinkTargets, setRelinkTargets] = useState<Record<string, string>>({});
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+
+  const runCheck = async () => {
+    setChecking(true);
+    try {
+      const [streamVideos, rows] = await Promise.all([listStreamVideos(), fetchAllVideoRows()]);
+      setReport(reconcileLibrary(streamVideos, rows));
+      setRelinkTargets({});
+    } catch (error) {
+      console.error('Library health check failed:', error);
+      toast.error(`Health check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const dropFromReport = (streamUid?: string, rowId?: string) => {
+    setReport(prev => prev && {
+      streamOnly: prev.streamOnly.filter(video => video.uid !== streamUid),
+      rowOnly: prev.rowOnly.filter(row => row.id !== rowId),
+      matched: prev.matched + (streamUid && rowId ? 1 : 0),
+    });
+  };
+
+  const runAction = async (id: string, action: () => Promise<void>, successMessage: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(successMessage);
+      onChanged();
+    } catch (error) {
+      console.error('Library health action failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Action failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const importStreamVideo = (video: StreamVideo) =>
+    runAction(video.uid, async () => {
+      const { error } = await supabase.from('videos').insert(buildVideoRow(video, video.uid));
+      if (error) throw error;
+      dropFromReport(video.uid);
+    }, `Imported "${streamVideoName(video)}"`);
+
+  // Point a row whose Stream video is gone at a Stream video that has no row
+  const relinkRow = (row: VideoFile, video: StreamVideo) =>
+    runAction(row.id, async () => {
+      const { error } = await supabase
+        .from('videos')
+        .update({
+          ...buildProcessingUpdate(video),
+          uid: video.uid,
+          stream_url: buildStreamUrl(video.uid),
+          thumbnail_url: buildThumbnailUrl(video.uid),
+          size: video.size || row.size,
+        })
+        .eq('id', row.id);
+      if (error) throw error;
+      dropFromReport(video.uid, row.id);
+    }, `Re-linked "${row.name}"`);
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const target = pendingDelete;
+    setPendingDelete(null);
+
+    if (target.kind === 'stream') {
+      await runAction(target.video.uid, async () => {
+        await deleteStreamVideo(target.video.uid);
+        dropFromReport(target.video.uid);
+      }, `Deleted "${streamVideoName(target.video)}" from Stream`);
+    } else {
+      await runAction(target.row.id, async () => {
+        const { error } = await supabase.from('videos').delete().eq('id', target.row.id);
+        if (error) throw error;
+        dropFromReport(undefined, target.row.id);
+      }, `Removed "${target.row.name}" from the library`);
+    }
+  };
+
+  const healthy = report && report.streamOnly.length === 0 && report.rowOnly.length === 0;
+
+  return (
+    <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-orange-800">
+          <span>Library Health</span>
+          <Button onClick={runCheck} disabled={checking} variant="outline" size="sm">
+            <Activity className={`w-4 h-4 mr-2 ${checking ? 'animate-pulse' : ''}`} />
+            {checking ? 'Checking...' : report ? 'Check again' : 'Run check'}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!report ? (
+          <p className="text-sm text-orange-600">
+            Compare Cloudflare Stream with the library to find videos that exist in only one of them.
+          </p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{report.matched} matched</Badge>
+              <Badge variant="secondary">{report.streamOnly.length} only in Stream</Badge>
+              <Badge variant="secondary">{report.rowOnly.length} only in library</Badge>
+            </div>
+
+            {healthy && <p className="text-sm text-green-700">Stream and the library are in sync.</p>}
+
+            {report.streamOnly.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-orange-800">Only in Stream</h4>
+                <ul className="space-y-2">
+                  {report.streamOnly.map(video => (
+                    <li key={video.uid} className="flex items-center gap-3 rounded-lg border border-orange-200/50 p-2">
+                      <img
+                        src={`${buildThumbnailUrl(video.uid)}?height=60`}
+                        alt=""
+                        className="w-16 h-10 object-cover rounded bg-black"
+                        onError={(e) => { e.currentTarget.style.visibility = 'hidden'; }}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate text-sm font-medium">{streamVideoName(video)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {video.uid}{video.created && ` · ${new Date(video.created).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <Button size="sm" variant="outline" disabled={busyId === video.uid} onClick={() => importStreamVideo(video)}>
+                        <Download className="w-4 h-4 mr-1" />
+                        Import
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        disabled={busyId === video.uid}
+                        onClick={() => setPendingDelete({ kind: 'stream', video })}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.rowOnly.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-orange-800">Only in library (missing from Stream)</h4>
+                <ul className="space-y-2">
+                  {report.rowOnly.map(row => {
+                    const target = report.streamOnly.find(video => video.uid === relinkTargets[row.id]);
+
+                    return (
+                      <li key={row.id} className="flex flex-wrap items-center gap-3 rounded-lg border border-orange-200/50 p-2">
+                        <div className="flex-1 min-w-0">
+                          <p className="truncate text-sm font-medium">{row.name}</p>
+                          <p className="text-xs text-muted-foreground">{row.uid}</p>
+                        </div>
+                        {report.streamOnly.length > 0 && (
+                          <>
+                            <select
+                              value={relinkTargets[row.id] || ''}
+                              onChange={(e) => setRelinkTargets(prev => ({ ...prev, [row.id]: e.target.value }))}
+                              className="max-w-[12rem] rounded-md border border-input bg-background px-2 py-1 text-sm"
+                            >
+                              <option value="">Re-link to…</option>
+                              {report.streamOnly.map(video => (
+                                <option key={video.uid} value={video.uid}>{streamVideoName(video)}</option>
+                              ))}
+                            </select>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={!target || busyId === row.id}
+                              onClick={() => target && relinkRow(row, target)}
+                            >
+                              <Link2 className="w-4 h-4 mr-1" />
+                              Re-link
+                            </Button>
+                          </>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={busyId === row.id}
+                          onClick={() => setPendingDelete({ kind: 'row', row })}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={() => setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingDelete?.kind === 'stream' ? 'Delete from Stream?' : 'Remove library entry?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete?.kind === 'stream'
+                ? `This will permanently delete "${streamVideoName(pendingDelete.video)}" from Cloudflare Stream.`
+                : `This will remove "${pendingDelete?.kind === 'row' ? pendingDelete.row.name : ''}" from the database. Its Stream video is already gone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
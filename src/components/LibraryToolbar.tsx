@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Search, X } from 'lucide-react';
+import {
+  DEFAULT_LIBRARY_QUERY,
+  isManualOrder,
+  type LibraryQuery,
+  type LibrarySort,
+  type LibraryStatusFilter,
+} from '@/lib/library-query';
+
+interface LibraryToolbarProps {
+  query: LibraryQuery;
+  onChange: (query: LibraryQuery) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_LABELS: Record<LibrarySort, string> = {
+  position: 'Manual order',
+  name: 'Name',
+  size: 'Size',
+  duration: 'Duration',
+  created_at: 'Date added',
+};
+
+const STATUS_LABELS: Record<LibraryStatusFilter, string> = {
+  all: 'All statuses',
+  ready: 'Ready',
+  processing: 'Processing',
+  error: 'Error',
+  unknown: 'Unknown',
+};
+
+const selectClassName = 'rounded-md border border-input bg-background px-2 py-2 text-sm';
+
+export default function LibraryToolbar({ query, onChange }: LibraryToolbarProps) {
+  const [search, setSearch] = useState(query.search);
+
+  // Follow the URL when it changes from elsewhere, e.g. back/forward navigation
+  useEffect(() => {
+    setSearch(query.search);
+  }, [query.search]);
+
+  useEffect(() => {
+    if (search === query.search) return;
+    const timer = window.setTimeout(() => onChange({ ...query, search }), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [search, query, onChange]);
+
+  const update = (changes: Partial<LibraryQuery>) => onChange({ ...query, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-orange-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search names and tags"
+            className="pl-8"
+          />
+        </div>
+        <select
+          value={query.status}
+          onChange={(e) => update({ status: e.target.value as LibraryStatusFilter })}
+          className={selectClassName}
+        >
+          {Object.entries(STATUS_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <select
+          value={query.sort}
+          onChange={(e) => update({ sort: e.target.value as LibrarySort })}
+          className={selectClassName}
+        >
+          {Object.entries(SORT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <Button
+          variant="outline"
+          size="icon"
+          disabled={query.sort === 'position'}
+          onClick={() => update({ direction: query.direction === 'asc' ? 'desc' : 'asc' })}
+          title={query.direction === 'asc' ? 'Ascending' : 'Descending'}
+        >
+          {query.direction === 'asc'
+            ? <ArrowUpNarrowWide className="w-4 h-4" />
+            : <ArrowDownWideNarrow className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-orange-700">
+        <label className="flex items-center gap-1">
+          Added
+          <Input type="date" value={query.from} onChange={(e) => update({ from: e.target.value })} className="w-auto" />
+        </label>
+        <label className="flex items-center gap-1">
+          to
+          <Input type="date" value={query.to} onChange={(e) => update({ to: e.target.value })} className="w-auto" />
+        </label>
+        <label className="flex items-center gap-1">
+          Size
+          <Input
+            type="number"
+            min="0"
+            value={query.minSize}
+            onChange={(e) => update({ minSize: e.target.value })}
+            placeholder="min"
+            className="w-20"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          to
+          <Input
+            type="number"
+            min="0"
+            value={query.maxSize}
+            onChange={(e) => update({ maxSize: e.target.value })}
+            placeholder="max"
+            className="w-20"
+          />
+          MB
+        </label>
+        {!isManualOrder(query) && (
+          <Button variant="ghost" size="sm" onClick={() => onChange(DEFAULT_LIBRARY_QUERY)}>
+            <X className="w-4 h-4 mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Switch } from './ui/switch';
+import { FileCode, Globe, Monitor, RotateCcw, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  ASPECT_RATIOS,
+  DEFAULT_TEMPLATE_ID,
+  TEMPLATES,
+  getTemplate,
+  templateDefaults,
+  withDefaultOptions,
+  type TemplateOptions,
+} from '@/templates';
+import { buildTemplateData } from '@/lib/template-data';
+import { copyToClipboard } from '@/lib/clipboard';
+import { getPlaybackToken } from '@/lib/stream';
+import type { ExportInput } from '@/lib/export-formats';
+import {
+  embedScriptSnippet,
+  embedTemplateOptions,
+  publishEmbed,
+  updateEmbedTemplate,
+  type Embed,
+  type EmbedSource,
+} from '@/lib/embeds';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+import ExportDialog from './ExportDialog';
+
+interface TemplateGalleryProps {
+  // Videos to generate markup for, in play order; null closes the gallery
+  source: EmbedSource | null;
+  // A published embed whose look is being edited
+  embed?: Embed | null;
+  onClose: () => void;
+  onEmbedsChanged: () => void;
+}
+
+// The last template used is offered first next time, with its customizations
+const TEMPLATE_KEY = 'carousel-template';
+const OPTIONS_KEY = 'carousel-template-options';
+
+const loadSavedOptions = (): Record<string, Partial<TemplateOptions>> => {
+  try {
+    return JSON.parse(localStorage.getItem(OPTIONS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const selectClassName = 'w-full rounded-md border border-input bg-background px-2 py-2 text-sm';
+
+// Narrow enough to hit the templates' mobile breakpoints
+const MOBILE_PREVIEW_WIDTH = 375;
+
+export default function TemplateGallery({ source, embed, onClose, onEmbedsChanged }: TemplateGalleryProps) {
+  const [templateId, setTemplateId] = useState(() => getTemplate(localStorage.getItem(TEMPLATE_KEY) || DEFAULT_TEMPLATE_ID).id);
+  const [savedOptions, setSavedOptions] = useState(loadSavedOptions);
+  const [mobilePreview, setMobilePreview] = useState(false);
+  const [embedName, setEmbedName] = useState('');
+  const [publishing, setPublishing] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const videos = source?.videos ?? null;
+
+  // Start from the embed being edited, or from the last template used
+  useEffect(() => {
+    if (!source) return;
+    if (embed) {
+      setTemplateId(getTemplate(embed.template_id).id);
+      setSavedOptions({ [embed.template_id]: embedTemplateOptions(embed) });
+    } else {
+      setTemplateId(getTemplate(localStorage.getItem(TEMPLATE_KEY) || DEFAULT_TEMPLATE_ID).id);
+      setSavedOptions(loadSavedOptions());
+    }
+    setEmbedName(source.collection?.name || '');
+    setExporting(false);
+  }, [source, embed]);
+
+  const template = getTemplate(templateId);
+  const options = useMemo(
+    () => withDefaultOptions({ ...template.defaults, ...savedOptions[template.id] }),
+    [template, savedOptions],
+  );
+
+  const setOptions = (next: TemplateOptions) => {
+    const updated = { ...savedOptions, [template.id]: next };
+    setSavedOptions(updated);
+    // An embed's look is saved with the embed instead
+    if (!embed) localStorage.setItem(OPTIONS_KEY, JSON.stringify(updated));
+  };
+  const update = (changes: Partial<TemplateOptions>) => setOptions(withDefaultOptions({ ...options, ...changes }));
+
+  // The preview cannot ask the worker for tokens itself, so private videos get theirs here
+  const [previewTokens, setPreviewTokens] = useState<Record<string, { token: string; expiresAt: number }>>({});
+  useEffect(() => {
+    const signed = (videos || []).filter(video => video.require_signed_urls);
+    if (signed.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(signed.map(async video => [video.uid, await getPlaybackToken(video.uid)] as const))
+      .then(entries => {
+        if (!cancelled) setPreviewTokens(Object.fromEntries(entries));
+      })
+      .catch(error => console.error('Could not get preview playback tokens:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [videos]);
+
+  const html = useMemo(
+    () => (videos ? template.render({ ...buildTemplateData(videos, options), playbackTokens: previewTokens }) : ''),
+    [videos, template, options, previewTokens],
+  );
+  // Keeps sliders responsive while the preview reloads
+  const previewHtml = useDeferredValue(html);
+
+  const customizable = (option: keyof TemplateOptions) => template.customizable.includes(option);
+
+  // Every export format is generated from what the preview shows
+  const exportInput = useMemo<ExportInput | null>(
+    () => (exporting && videos
+      ? {
+        template,
+        data: buildTemplateData(videos, options),
+        title: embed?.name || source?.collection?.name || 'Video Carousel',
+        embed,
+      }
+      : null),
+    [exporting, videos, template, options, embed, source],
+  );
+
+  const openExport = () => {
+    if (!embed) localStorage.setItem(TEMPLATE_KEY, template.id);
+    setExporting(true);
+  };
+
+  // Publish a new hosted embed, or save the look of the one being edited
+  const saveEmbed = async () => {
+    if (!source) return;
+
+    setPublishing(true);
+    try {
+      if (embed) {
+        await updateEmbedTemplate(embed, template.id, options);
+        toast.success(`Updated "${embed.name}"`, { description: 'Pages using it pick up the change on their next load' });
+      } else {
+        const name = embedName.trim() || `${source.videos.length} videos`;
+        const published = await publishEmbed(name, template.id, options, source);
+        // The embed is saved either way; only the toast says whether its tag made it to the clipboard
+        const copied = await copyToClipboard(embedScriptSnippet(published)).catch(() => false);
+        if (copied) {
+          toast.success(`Published "${name}"`, { description: 'Embed script tag copied to the clipboard' });
+        } else {
+          toast.error(`Published "${name}", but copying its script tag failed`, { description: 'Copy it from the Embeds list' });
+        }
+      }
+      onEmbedsChanged();
+      onClose();
+    } catch (error) {
+      console.error('Failed to save embed:', error);
+      toast.error(`Failed to save embed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!source} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <AlertDialogHeader>
+          <AlertDialogTitle>{embed ? `Edit "${embed.name}"` : 'Choose a template'}</AlertDialogTitle>
+          <AlertDialogDescription>
+            {videos?.length} video{videos?.length === 1 ? '' : 's'}, played in the order shown in the library or collection.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="grid gap-6 lg:grid-cols-[300px_1fr]">
+          <div className="space-y-5">
+            <div role="radiogroup" className="space-y-2">
+              {TEMPLATES.map(item => (
+                <button
+                  key={item.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={templateId === item.id}
+                  onClick={() => setTemplateId(item.id)}
+                  className={`w-full rounded-lg border-2 px-3 py-2 text-left transition-colors ${templateId === item.id ? 'border-orange-500 bg-orange-50' : 'border-orange-200/50 hover:border-orange-300'}`}
+                >
+                  <p className="text-sm font-medium text-orange-800">{item.name}</p>
+                  <p className="text-xs text-orange-700/80">{item.description}</p>
+                </button>
+              ))}
+            </div>
+
+            {/* Customizer */}
+            <div className="space-y-3 text-sm text-orange-800">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Customize</h3>
+                <Button variant="ghost" size="sm" onClick={() => setOptions(templateDefaults(template))}>
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  Reset
+                </Button>
+              </div>
+              {customizable('accentColor') && (
+                <label className="flex items-center justify-between gap-2">
+                  Accent colour
+                  <input
+                    type="color"
+                    value={options.accentColor}
+                    onChange={(e) => update({ accentColor: e.target.value })}
+                    className="h-8 w-12 cursor-pointer rounded border border-input bg-background"
+                  />
+                </label>
+              )}
+              {customizable('borderRadius') && (
+                <label className="block space-y-1">
+                  <span className="flex justify-between">Corner radius <span>{options.borderRadius}px</span></span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="48"
+                    value={options.borderRadius}
+                    onChange={(e) => update({ borderRadius: Number(e.target.value) })}
+                    className="w-full accent-orange-500"
+                  />
+                </label>
+              )}
+              {customizable('thumbnailSize') && (
+                <label className="block space-y-1">
+                  <span className="flex justify-between">Thumbnail size <span>{options.thumbnailSize}px</span></span>
+                  <input
+                    type="range"
+                    min="40"
+                    max="320"
+                    value={options.thumbnailSize}
+                    onChange={(e) => update({ thumbnailSize: Number(e.target.value) })}
+                    className="w-full accent-orange-500"
+                  />
+                </label>
+              )}
+              {customizable('aspectRatio') && (
+                <label className="block space-y-1">
+                  <span>Aspect ratio</span>
+                  <select
+                    value={options.aspectRatio}
+                    onChange={(e) => update({ aspectRatio: e.target.value })}
+                    className={selectClassName}
+                  >
+                    {ASPECT_RATIOS.map(ratio => (
+                      <option key={ratio.value} value={ratio.value}>{ratio.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              {customizable('blur') && (
+                <label className="block space-y-1">
+                  <span className="flex justify-between">Glass blur <span>{options.blur}px</span></span>
+                  <input
+                    type="range"
+                    min="0"
+                    max="40"
+                    value={options.blur}
+                    onChange={(e) => update({ blur: Number(e.target.value) })}
+                    className="w-full accent-orange-500"
+                  />
+                </label>
+              )}
+              {customizable('showArrows') && (
+                <label className="flex items-center justify-between">
+                  Previous/next arrows
+                  <Switch checked={options.showArrows} onCheckedChange={(showArrows) => update({ showArrows })} />
+                </label>
+              )}
+              {customizable('hoverPreviews') && (
+                <label className="flex items-center justify-between" title="Thumbnails play a short clip on hover">
+                  Hover previews
+                  <Switch checked={options.hoverPreviews} onCheckedChange={(hoverPreviews) => update({ hoverPreviews })} />
+                </label>
+              )}
+            </div>
+          </div>
+
+          {/* Live Preview */}
+          <div className="space-y-2 min-w-0">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium text-orange-800">Preview</span>
+              <div className="flex gap-1">
+                <Button
+                  variant={mobilePreview ? 'ghost' : 'secondary'}
+                  size="sm"
+                  onClick={() => setMobilePreview(false)}
+                  aria-label="Desktop width"
+                >
+                  <Monitor className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant={mobilePreview ? 'secondary' : 'ghost'}
+                  size="sm"
+                  onClick={() => setMobilePreview(true)}
+                  aria-label="Mobile width"
+                >
+                  <Smartphone className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex justify-center rounded-lg border bg-stone-100">
+              {/*
+                A srcdoc frame would otherwise share the admin's origin, and with it
+                the Supabase session. Without allow-same-origin it gets an opaque one.
+              */}
+              <iframe
+                title="Template preview"
+                srcDoc={previewHtml}
+                sandbox="allow-scripts allow-presentation"
+                allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture; fullscreen"
+                className="h-[520px] border-0 bg-transparent"
+                style={{ width: mobilePreview ? MOBILE_PREVIEW_WIDTH : '100%' }}
+              />
+            </div>
+            {videos?.some(video => video.require_signed_urls) && (
+              <p className="text-xs text-orange-600/80">
+                Private videos only play on other sites once they are in a published embed and EMBED_ORIGINS lists the site.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <AlertDialogFooter className="sm:items-center">
+          {!embed && (
+            <Input
+              value={embedName}
+              onChange={(e) => setEmbedName(e.target.value)}
+              placeholder="Embed name"
+              className="sm:mr-auto sm:max-w-xs"
+              aria-label="Embed name"
+            />
+          )}
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <Button variant="outline" onClick={saveEmbed} disabled={publishing}>
+            <Globe className="w-4 h-4 mr-2" />
+            {publishing ? 'Saving...' : embed ? 'Save embed' : 'Publish embed'}
+          </Button>
+          <AlertDialogAction
+            onClick={(e) => {
+              // The gallery stays open behind the export dialog
+              e.preventDefault();
+              openExport();
+            }}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            <FileCode className="w-4 h-4 mr-2" />
+            Export
+          </AlertDialogAction>
+        </AlertDialogFooter>
+        <ExportDialog input={exportInput} onClose={() => setExporting(false)} />
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Checkbox } from './ui/checkbox';
+import { Slider } from './ui/slider';
+import { toast } from 'sonner';
+import { formatFileSize } from '@/lib/format';
+import type { VideoFile } from '@/lib/videos';
+import {
+  CAROUSEL_ASPECT_RATIO,
+  THUMBNAIL_MAX_BYTES,
+  THUMBNAIL_TYPES,
+  cropToAspect,
+  hasCustomThumbnail,
+  resetThumbnail,
+  uploadCustomThumbnail,
+} from '@/lib/thumbnails';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface ThumbnailUploaderProps {
+  video: VideoFile | null;
+  onClose: () => void;
+  onSaved: (updates: Partial<VideoFile>) => void;
+}
+
+export default function ThumbnailUploader({ video, onClose, onSaved }: ThumbnailUploaderProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [crop, setCrop] = useState(true);
+  const [focus, setFocus] = useState(50);
+  const [image, setImage] = useState<Blob | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!video) return;
+    setFile(null);
+    setCrop(true);
+    setFocus(50);
+  }, [video]);
+
+  // Re-crop whenever the source or crop settings change
+  useEffect(() => {
+    if (!file) {
+      setImage(null);
+      return;
+    }
+    let cancelled = false;
+    const prepare = crop ? cropToAspect(file, CAROUSEL_ASPECT_RATIO, focus / 100) : Promise.resolve(file);
+    prepare
+      .then((result) => !cancelled && setImage(result))
+      .catch((error) => {
+        console.error('Failed to crop image:', error);
+        if (!cancelled) toast.error(error instanceof Error ? error.message : 'Could not crop this image');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, crop, focus]);
+
+  useEffect(() => {
+    if (!image) {
+      setPreviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(image);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [image]);
+
+  const chooseFile = (chosen: File | undefined) => {
+    if (!chosen) return;
+    if (!THUMBNAIL_TYPES.includes(chosen.type)) {
+      toast.error('Choose a JPEG, PNG or WebP image');
+      return;
+    }
+    setFile(chosen);
+  };
+
+  const tooLarge = !!image && image.size > THUMBNAIL_MAX_BYTES;
+
+  const save = async () => {
+    if (!video || !image || tooLarge) return;
+    setSaving(true);
+    try {
+      onSaved(await uploadCustomThumbnail(video, image));
+      toast.success('Custom thumbnail saved');
+      onClose();
+    } catch (error) {
+      console.error('Thumbnail upload failed:', error);
+      toast.error(`Failed to upload thumbnail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeCustom = async () => {
+    if (!video) return;
+    setSaving(true);
+    try {
+      onSaved(await resetThumbnail(video));
+      toast.success('Custom thumbnail removed');
+      onClose();
+    } catch (error) {
+      console.error('Failed to remove thumbnail:', error);
+      toast.error(`Failed to remove thumbnail: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!video} onOpenChange={() => !saving && onClose()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Custom Thumbnail for "{video?.name}"</AlertDialogTitle>
+          <AlertDialogDescription>
+            Upload a designed poster image. It replaces the video frame on library cards and in generated carousels.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-4">
+          <Input
+            type="file"
+            accept={THUMBNAIL_TYPES.join(',')}
+            onChange={(e) => {
+              chooseFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+
+          {previewUrl && (
+            <div className="flex justify-center rounded-lg border bg-gray-100 p-2">
+              <img src={previewUrl} alt="Thumbnail preview" className="max-h-72 rounded object-contain" />
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={crop} onCheckedChange={(checked) => setCrop(checked === true)} />
+            Crop to the carousel frame (1920×1398)
+          </label>
+
+          {crop && file && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Keep which part</label>
+              <Slider value={[focus]} min={0} max={100} step={1} onValueChange={([value]) => setFocus(value)} />
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>Top / left</span>
+                <span>Bottom / right</span>
+              </div>
+            </div>
+          )}
+
+          {image && (
+            <p className={`text-sm ${tooLarge ? 'text-red-600' : 'text-muted-foreground'}`}>
+              {formatFileSize(image.size)}
+              {tooLarge && ` — images must be under ${formatFileSize(THUMBNAIL_MAX_BYTES)}`}
+            </p>
+          )}
+        </div>
+
+        <AlertDialogFooter>
+          {video && hasCustomThumbnail(video) && (
+            <Button variant="outline" onClick={removeCustom} disabled={saving} className="sm:mr-auto">
+              Remove custom thumbnail
+            </Button>
+          )}
+          <AlertDialogCancel disabled={saving}>Cancel</AlertDialogCancel>
+          <Button
+            onClick={save}
+            disabled={saving || !image || tooLarge}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            {saving ? 'Uploading...' : 'Upload'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
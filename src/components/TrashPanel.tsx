@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Progress } from './ui/progress';
+import { RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { VIDEO_SELECT, type VideoFile } from '@/lib/videos';
+import { TRASH_RETENTION_DAYS, purgeDate, purgeVideo, restoreFromTrash } from '@/lib/trash';
+import { displayThumbnailUrl } from '@/lib/thumbnails';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface TrashPanelProps {
+  // Changes whenever videos were moved to the Trash elsewhere
+  refreshKey?: number;
+  onRestored: () => void;
+}
+
+interface PurgeProgress {
+  total: number;
+  purged: number;
+  failures: { name: string; message: string }[];
+  finished: boolean;
+}
+
+export default function TrashPanel({ refreshKey, onRestored }: TrashPanelProps) {
+  const [trashed, setTrashed] = useState<VideoFile[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [purgeTargets, setPurgeTargets] = useState<VideoFile[] | null>(null);
+  const [purgeProgress, setPurgeProgress] = useState<PurgeProgress | null>(null);
+
+  const fetchTrash = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('videos')
+        .select(VIDEO_SELECT)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) throw error;
+      setTrashed(data || []);
+    } catch (error) {
+      console.error('Failed to fetch trash:', error);
+      toast.error('Failed to fetch the Trash');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash, refreshKey]);
+
+  const restore = async (video: VideoFile) => {
+    try {
+      await restoreFromTrash([video.id]);
+      toast.success(`Restored "${video.name}"`);
+      fetchTrash();
+      onRestored();
+    } catch (error) {
+      console.error('Restore failed:', error);
+      toast.error(`Failed to restore: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // One at a time, so a failure part-way leaves a clear record of what was removed
+  const purge = async (videos: VideoFile[]) => {
+    const progress: PurgeProgress = { total: videos.length, purged: 0, failures: [], finished: false };
+    setPurgeTargets(null);
+    setPurgeProgress({ ...progress });
+
+    for (const video of videos) {
+      try {
+        await purgeVideo(video);
+        progress.purged += 1;
+      } catch (error) {
+        console.error('Purge failed:', video.name, error);
+        progress.failures.push({ name: video.name, message: error instanceof Error ? error.message : 'Unknown error' });
+      }
+      setPurgeProgress({ ...progress, failures: [...progress.failures] });
+    }
+
+    setPurgeProgress({ ...progress, finished: true });
+    fetchTrash();
+  };
+
+  const processed = purgeProgress ? purgeProgress.purged + purgeProgress.failures.length : 0;
+
+  return (
+    <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-orange-800">
+          <span>Trash ({trashed.length})</span>
+          <div className="flex gap-2">
+            <Button onClick={fetchTrash} disabled={loading} variant="outline" size="sm">
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+            <Button
+              onClick={() => setPurgeTargets(trashed)}
+              disabled={trashed.length === 0}
+              variant="destructive"
+              size="sm"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              Empty Trash
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {trashed.length === 0 ? (
+          <p className="text-sm text-orange-600">
+            The Trash is empty. Deleted videos stay here for {TRASH_RETENTION_DAYS} days before they are purged.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {trashed.map(video => (
+              <li key={video.id} className="flex items-center gap-3 rounded-md border p-2">
+                {video.thumbnail_url && (
+                  <img src={displayThumbnailUrl(video)} alt="" className="h-9 w-16 rounded object-cover bg-black" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-sm font-medium text-orange-800">{video.name}</p>
+                  <p className="text-xs text-orange-600/70">
+                    Deleted {new Date(video.deleted_at).toLocaleDateString()} · purged on {purgeDate(video).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => restore(video)}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Restore
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setPurgeTargets([video])} aria-label="Delete forever">
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      {/* Purge Confirmation */}
+      <AlertDialog open={!!purgeTargets} onOpenChange={() => setPurgeTargets(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTargets?.length === 1 ? `Delete "${purgeTargets[0].name}" forever?` : `Delete ${purgeTargets?.length} videos forever?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the video files from Cloudflare Stream and the database.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTargets && purge(purgeTargets)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Purge Progress */}
+      <AlertDialog open={!!purgeProgress} onOpenChange={(open) => !open && purgeProgress?.finished && setPurgeProgress(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeProgress?.finished ? 'Purge finished' : `Deleting ${processed + 1} of ${purgeProgress?.total}...`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeProgress?.purged} deleted
+              {purgeProgress?.failures.length ? `, ${purgeProgress.failures.length} failed` : ''}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {purgeProgress && (
+            <div className="space-y-3">
+              <Progress value={(processed / purgeProgress.total) * 100} className="h-2" />
+              {purgeProgress.failures.length > 0 && (
+                <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+                  {purgeProgress.failures.map((failure, index) => (
+                    <li key={`${failure.name}-${index}`} className="text-red-600">
+                      {failure.name}: {failure.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogAction disabled={!purgeProgress?.finished} onClick={() => setPurgeProgress(null)}>
+              Close
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
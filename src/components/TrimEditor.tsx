@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { buildVideoRow, createStreamClip } from '@/lib/stream';
+import { formatDuration } from '@/lib/format';
+import type { VideoFile } from '@/lib/videos';
+import FrameScrubber from './FrameScrubber';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface TrimEditorProps {
+  video: VideoFile | null;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+export default function TrimEditor({ video, onClose, onCreated }: TrimEditorProps) {
+  const [currentTime, setCurrentTime] = useState(0);
+  const [inPoint, setInPoint] = useState(0);
+  const [outPoint, setOutPoint] = useState(0);
+  const [clipName, setClipName] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!video) return;
+    setCurrentTime(0);
+    setInPoint(0);
+    setOutPoint(video.duration > 0 ? Math.floor(video.duration) : 0);
+    setClipName(`${video.name} (clip)`);
+  }, [video]);
+
+  // Stream clips on whole seconds, so the range snaps outwards to include both marks
+  const clipStart = Math.floor(inPoint);
+  const clipEnd = Math.ceil(outPoint);
+  const rangeError =
+    clipEnd <= clipStart ? 'Out point must be after the in point' :
+    video?.duration > 0 && clipEnd > Math.ceil(video.duration) ? 'Out point is past the end of the video' :
+    null;
+
+  const createClip = async () => {
+    if (!video || rangeError) return;
+    setCreating(true);
+    try {
+      const name = clipName.trim() || `${video.name} (clip)`;
+      const clip = await createStreamClip(video.uid, clipStart, clipEnd, name);
+
+      const { error } = await supabase.from('videos').insert({
+        ...buildVideoRow(clip, name),
+        name,
+        clip_of: video.id,
+        clip_start: clipStart,
+        clip_end: clipEnd,
+      });
+      if (error) throw error;
+
+      toast.success('Clip created!', { description: 'Stream is processing it now' });
+      onCreated();
+      onClose();
+    } catch (error) {
+      console.error('Failed to create clip:', error);
+      toast.error(`Failed to create clip: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={!!video} onOpenChange={() => !creating && onClose()}>
+      <AlertDialogContent className="max-w-4xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Trim "{video?.name}"</AlertDialogTitle>
+          <AlertDialogDescription>
+            Scrub to the start and end of the part you want, mark them, and save it as a new clip.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {video && (
+          <div className="space-y-4">
+            <FrameScrubber
+              video={video}
+              time={currentTime}
+              onTimeChange={setCurrentTime}
+              label="Preview:"
+              range={[inPoint, outPoint]}
+            />
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => setInPoint(currentTime)}>
+                Set In ({formatDuration(inPoint)})
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setOutPoint(currentTime)}>
+                Set Out ({formatDuration(outPoint)})
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Clip length: {formatDuration(Math.max(clipEnd - clipStart, 0))}
+              </span>
+            </div>
+
+            <div className="space-y-1">
+              <label className="text-sm font-medium">Clip name</label>
+              <Input value={clipName} onChange={(e) => setClipName(e.target.value)} />
+            </div>
+
+            {rangeError && <p className="text-sm text-red-600">{rangeError}</p>}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={creating}>Cancel</AlertDialogCancel>
+          <Button
+            onClick={createClip}
+            disabled={creating || !!rangeError}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            {creating ? 'Creating...' : 'Create Clip'}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from './ui/badge';
+import { Checkbox } from './ui/checkbox';
+import { supabase } from '@/integrations/supabase/client';
+import { formatDuration, formatFileSize } from '@/lib/format';
+import { preflightWarnings, probeVideo, type PreflightWarning, type VideoProbe } from '@/lib/video-probe';
+import type { QueueEntry } from '@/hooks/use-upload-queue';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from './ui/alert-dialog';
+
+interface UploadPreflightProps {
+  files: File[];
+  onCancel: () => void;
+  onConfirm: (entries: QueueEntry[]) => void;
+}
+
+interface InspectedFile {
+  file: File;
+  probe: VideoProbe | null;
+  warnings: PreflightWarning[];
+  keep: boolean;
+}
+
+const WARNING_CLASSES: Record<PreflightWarning['kind'], string> = {
+  'oversized': 'bg-amber-100 text-amber-700',
+  'too-long': 'bg-amber-100 text-amber-700',
+  'unsupported': 'bg-red-100 text-red-700',
+  'duplicate': 'bg-red-100 text-red-700',
+};
+
+// Unsupported files and duplicates start out dropped; the user can still opt back in
+const keepByDefault = (warnings: PreflightWarning[]) =>
+  !warnings.some(warning => warning.kind === 'unsupported' || warning.kind === 'duplicate');
+
+export default function UploadPreflight({ files, onCancel, onConfirm }: UploadPreflightProps) {
+  const [inspected, setInspected] = useState<InspectedFile[]>([]);
+  const [inspecting, setInspecting] = useState(false);
+
+  useEffect(() => {
+    if (files.length === 0) return;
+    let cancelled = false;
+
+    const inspect = async () => {
+      setInspecting(true);
+      setInspected([]);
+
+      const results: InspectedFile[] = [];
+      for (const file of files) {
+        try {
+          const probe = await probeVideo(file);
+          results.push({ file, probe, warnings: preflightWarnings(file, probe), keep: true });
+        } catch (error) {
+          console.error('Failed to inspect file:', file.name, error);
+          results.push({ file, probe: null, warnings: [{ kind: 'unsupported', message: 'Could not read this file' }], keep: true });
+        }
+        if (cancelled) return;
+        setInspected([...results]);
+      }
+
+      // Flag files whose content hash matches a library video or another file in this batch
+      const hashes = results.map(result => result.probe?.contentHash).filter(Boolean);
+      const { data: existing, error } = hashes.length > 0
+        ? await supabase.from('videos').select('name, content_hash, deleted_at').in('content_hash', hashes)
+        : { data: [], error: null };
+      if (error) console.warn('Duplicate check failed:', error);
+      if (cancelled) return;
+
+      const seen = new Map<string, string>();
+      const checked = results.map(result => {
+        const hash = result.probe?.contentHash;
+        const warnings = [...result.warnings];
+        const match = hash && existing?.find(video => video.content_hash === hash);
+
+        if (match) {
+          const where = match.deleted_at ? 'the Trash' : 'the library';
+          warnings.push({ kind: 'duplicate', message: `Duplicate of "${match.name}" in ${where}` });
+        } else if (hash && seen.has(hash)) {
+          warnings.push({ kind: 'duplicate', message: `Duplicate of "${seen.get(hash)}" in this selection` });
+        }
+        if (hash && !seen.has(hash)) seen.set(hash, result.file.name);
+
+        return { ...result, warnings, keep: keepByDefault(warnings) };
+      });
+
+      setInspected(checked);
+      setInspecting(false);
+    };
+
+    inspect();
+    return () => {
+      cancelled = true;
+    };
+  }, [files]);
+
+  const toggleKeep = (index: number, keep: boolean) => {
+    setInspected(prev => prev.map((item, i) => i === index ? { ...item, keep } : item));
+  };
+
+  const kept = inspected.filter(item => item.keep);
+
+  return (
+    <AlertDialog open={files.length > 0} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-3xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Review {files.length} file{files.length > 1 ? 's' : ''} before uploading</AlertDialogTitle>
+          <AlertDialogDescription>
+            {inspecting
+              ? `Inspecting ${inspected.length + 1} of ${files.length}...`
+              : 'Untick any file you do not want to upload.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <ul className="max-h-[60vh] overflow-y-auto space-y-2">
+          {inspected.map((item, index) => (
+            <li key={`${item.file.name}-${index}`} className="flex items-start gap-3 rounded-lg border p-3">
+              <Checkbox
+                checked={item.keep}
+                disabled={inspecting}
+                onCheckedChange={(checked) => toggleKeep(index, checked === true)}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0 space-y-1">
+                <p className="truncate text-sm font-medium">{item.file.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatFileSize(item.file.size)}
+                  {item.probe?.duration != null && ` · ${formatDuration(item.probe.duration)}`}
+                  {item.probe?.width && item.probe?.height && ` · ${item.probe.width}×${item.probe.height}`}
+                  {item.probe?.codecHint && ` · ${item.probe.codecHint}`}
+                </p>
+                {item.warnings.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {item.warnings.map(warning => (
+                      <Badge key={warning.kind} variant="secondary" className={WARNING_CLASSES[warning.kind]}>
+                        {warning.message}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={inspecting || kept.length === 0}
+            onClick={() => onConfirm(kept.map(item => ({ file: item.file, contentHash: item.probe?.contentHash })))}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+          >
+            Upload {kept.length} file{kept.length === 1 ? '' : 's'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Progress } from './ui/progress';
+import { RotateCcw, X } from 'lucide-react';
+import type { UploadItem, UploadStatus } from '@/hooks/use-upload-queue';
+import { formatFileSize } from '@/lib/format';
+
+interface UploadQueueProps {
+  items: UploadItem[];
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  processing: 'Processing',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const STATUS_CLASSES: Record<UploadStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  uploading: 'bg-orange-100 text-orange-700',
+  processing: 'bg-amber-100 text-amber-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+export default function UploadQueue({ items, onCancel, onRetry, onClearFinished }: UploadQueueProps) {
+  if (items.length === 0) return null;
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'failed').length;
+  const done = items.filter(item => item.status === 'done').length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-sm text-orange-700">
+        <span>{done} of {items.length} uploaded</span>
+        {finished > 0 && (
+          <Button variant="ghost" size="sm" onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        )}
+      </div>
+
+      <ul className="space-y-2">
+        {items.map(item => {
+          const percent = item.bytesTotal > 0 ? Math.round((item.bytesSent / item.bytesTotal) * 100) : 0;
+
+          return (
+            <li key={item.id} className="rounded-lg border border-orange-200/50 p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 truncate text-sm font-medium text-orange-800">{item.file.name}</span>
+                <Badge variant="secondary" className={STATUS_CLASSES[item.status]}>
+                  {STATUS_LABELS[item.status]}
+                </Badge>
+                {(item.status === 'queued' || item.status === 'uploading') && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onCancel(item.id)} title="Cancel">
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+                {item.status === 'failed' && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onRetry(item.id)} title="Retry">
+                    <RotateCcw className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+
+              {item.status !== 'done' && (
+                <Progress value={item.status === 'processing' ? 100 : percent} className="h-1.5" />
+              )}
+
+              <p className="text-xs text-orange-600/70">
+                {item.status === 'failed'
+                  ? item.error
+                  : `${formatFileSize(item.bytesSent)} of ${formatFileSize(item.bytesTotal)} (${percent}%)`}
+              </p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
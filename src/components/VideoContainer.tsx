@@ -11,13 +11,28 @@ interface YouTubePlayer {
   getPlayerState: () => number;
 }
 
+export interface TextTrackSource {
+  srclang: string;
+  label: string;
+  // WebVTT file for native videos; Stream iframes load their own tracks
+  src?: string;
+}
+
 interface VideoContainerProps {
   urls: string[];
   title?: string;
   className?: string;
+  // Caption tracks per video, matched to urls by index. The first track is shown by default.
+  textTracks?: TextTrackSource[][];
 }
 
-const VideoContainer = ({ urls, title = "Video Player", className = "" }: VideoContainerProps) => {
+// Ask the Stream player to show a caption track by default
+const withDefaultTextTrack = (url: string, tracks?: TextTrackSource[]) => {
+  if (!tracks?.length) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}defaultTextTrack=${encodeURIComponent(tracks[0].srclang)}`;
+};
+
+const VideoContainer = ({ urls, title = "Video Player", className = "", textTracks = [] }: VideoContainerProps) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isNavigating, setIsNavigating] = useState(false);
   const [slideDirection, setSlideDirection] = useState<'left' | 'right' | null>(null);
@@ -167,10 +182,11 @@ const VideoContainer = ({ urls, title = "Video Player", className = "" }: VideoC
     const videoId = getYouTubeVideoId(url);
     if (!videoId) return;
 
-    const playerElement = document.getElementById(`youtube-player-${index}`);
+    // Looked up through the container so it is also found inside a shadow root
+    const playerElement = containerRef.current?.querySelector<HTMLElement>(`#youtube-player-${index}`);
     if (!playerElement) return;
 
-    const player = new (window as any).YT.Player(`youtube-player-${index}`, {
+    const player = new (window as any).YT.Player(playerElement, {
       videoId,
       playerVars: {
         controls: 0,
@@ -487,7 +503,7 @@ const VideoContainer = ({ urls, title = "Video Player", className = "" }: VideoC
                       <div id={`youtube-player-${index}`} className="w-full h-full pointer-events-none" />
                     ) : isCloudflareStream(url) ? (
                       <iframe
-                        src={url}
+                        src={withDefaultTextTrack(url, textTracks[index])}
                         className="w-full h-full border-0"
                         title={`${title} - Video ${index + 1}`}
                         allow="accelerometer; autoplay; encrypted-media; gyroscope; picture-in-picture"
@@ -536,6 +552,16 @@ const VideoContainer = ({ urls, title = "Video Player", className = "" }: VideoC
                 }
               }}
             >
+              {textTracks[index]?.filter(track => track.src).map((track, trackIndex) => (
+                <track
+                  key={track.srclang}
+                  kind="subtitles"
+                  src={track.src}
+                  srcLang={track.srclang}
+                  label={track.label}
+                  default={trackIndex === 0}
+                />
+              ))}
               Your browser does not support the video tag.
             </video>
                     )}
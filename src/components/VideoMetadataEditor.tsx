@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { Badge } from './ui/badge';
+import { Pencil } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { parseTags, type VideoFile } from '@/lib/videos';
+import { DEFAULT_PREVIEW_DURATION, MAX_PREVIEW_DURATION } from '@/lib/thumbnails';
+
+type VideoMetadata = Pick<VideoFile, 'name' | 'description' | 'tags' | 'alt_text' | 'preview_start' | 'preview_duration'>;
+
+interface VideoMetadataEditorProps {
+  video: VideoFile;
+  onSaved: (updates: VideoMetadata) => void;
+}
+
+// Blank means "use the default"
+const seconds = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+};
+
+// Title, description, tags, alt text and hover preview for a library card, edited in place
+export default function VideoMetadataEditor({ video, onSaved }: VideoMetadataEditorProps) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
+  const [altText, setAltText] = useState('');
+  const [previewStart, setPreviewStart] = useState('');
+  const [previewDuration, setPreviewDuration] = useState('');
+
+  const startEditing = () => {
+    setName(video.name);
+    setDescription(video.description || '');
+    setTags((video.tags || []).join(', '));
+    setAltText(video.alt_text || '');
+    setPreviewStart(video.preview_start?.toString() ?? '');
+    setPreviewDuration(video.preview_duration?.toString() ?? '');
+    setEditing(true);
+  };
+
+  const save = async () => {
+    const updates: VideoMetadata = {
+      name: name.trim() || video.name,
+      description: description.trim() || null,
+      tags: parseTags(tags),
+      alt_text: altText.trim() || null,
+      preview_start: seconds(previewStart),
+      preview_duration: seconds(previewDuration) || null,
+    };
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('videos').update(updates).eq('id', video.id);
+      if (error) throw error;
+
+      onSaved(updates);
+      setEditing(false);
+      toast.success('Details saved');
+    } catch (error) {
+      console.error('Failed to save details:', error);
+      toast.error(`Failed to save details: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <div className="min-w-0 space-y-1">
+        <button
+          type="button"
+          onClick={startEditing}
+          className="group flex w-full items-center gap-1 text-left"
+          title="Edit details"
+        >
+          <h3 className="truncate font-medium text-orange-800">{video.name}</h3>
+          <Pencil className="w-3 h-3 shrink-0 text-orange-400 opacity-0 group-hover:opacity-100" />
+        </button>
+        {video.description && (
+          <p className="text-sm text-orange-700/80 line-clamp-2">{video.description}</p>
+        )}
+        {video.tags?.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {video.tags.map(tag => (
+              <Badge key={tag} variant="secondary" className="bg-orange-100 text-orange-700">
+                {tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        save();
+      }}
+    >
+      <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Title" autoFocus />
+      <Textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Description"
+        rows={2}
+      />
+      <Input value={tags} onChange={(e) => setTags(e.target.value)} placeholder="Tags, comma separated" />
+      <Input
+        value={altText}
+        onChange={(e) => setAltText(e.target.value)}
+        placeholder="Alt text for the thumbnail"
+      />
+      <div className="flex items-center gap-2 text-sm text-orange-700">
+        <span className="shrink-0">Hover preview</span>
+        <Input
+          type="number"
+          min="0"
+          step="0.1"
+          value={previewStart}
+          onChange={(e) => setPreviewStart(e.target.value)}
+          placeholder="from 0s"
+        />
+        <Input
+          type="number"
+          min="1"
+          max={MAX_PREVIEW_DURATION}
+          step="0.5"
+          value={previewDuration}
+          onChange={(e) => setPreviewDuration(e.target.value)}
+          placeholder={`${DEFAULT_PREVIEW_DURATION}s long`}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={() => setEditing(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={saving} className="bg-orange-500 hover:bg-orange-600 text-white">
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from 'react';
+import VideoContainer from '@/components/VideoContainer';
+import { resolvePlayback, type CarouselPlayback, type VideoCarouselConfig } from './config';
+
+// Waits for playback tokens before handing the videos to the player
+export default function VideoCarousel({ config }: { config: VideoCarouselConfig }) {
+  const [playback, setPlayback] = useState<CarouselPlayback | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    resolvePlayback(config).then(result => {
+      if (!cancelled) setPlayback(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [config]);
+
+  if (!playback) return null;
+  return <VideoContainer urls={playback.urls} textTracks={playback.textTracks} title={config.title} />;
+}
@@ -0,0 +1,76 @@
+import type { TextTrackSource } from '@/components/VideoContainer';
+import { streamPlayerUrl, type TemplateVideo } from '@/templates';
+
+// What a <video-carousel> plays, from its config attribute or an inline JSON script
+export interface VideoCarouselConfig {
+  title?: string;
+  // Library videos, as the HTML templates receive them
+  videos?: TemplateVideo[];
+  // customer-<code>.cloudflarestream.com
+  streamDomain?: string;
+  // Prefix that a uid is appended to when fetching a playback token
+  tokenEndpoint?: string;
+  // Anything else VideoContainer plays: Stream, YouTube or video file URLs
+  urls?: string[];
+}
+
+export interface CarouselPlayback {
+  urls: string[];
+  textTracks: TextTrackSource[][];
+}
+
+// Read from attributes first so a page can change them later; `urls` and `label` cover the simple case
+export const readConfig = (element: HTMLElement): VideoCarouselConfig | null => {
+  const json = element.getAttribute('config') ?? element.querySelector('script[type="application/json"]')?.textContent;
+  let config: VideoCarouselConfig = {};
+  if (json) {
+    try {
+      config = JSON.parse(json);
+    } catch (error) {
+      console.error('Invalid <video-carousel> config:', error);
+      return null;
+    }
+  }
+
+  const urls = element.getAttribute('urls')?.split(/\s+/).filter(Boolean);
+  if (urls?.length) config = { ...config, urls };
+  const label = element.getAttribute('label');
+  if (label) config = { ...config, title: label };
+
+  return config.videos?.length || config.urls?.length ? config : null;
+};
+
+const fetchPlaybackToken = async (tokenEndpoint: string, uid: string) => {
+  const response = await fetch(`${tokenEndpoint}${uid}`);
+  if (!response.ok) throw new Error(`Playback token request failed: ${response.status}`);
+  const { token } = await response.json();
+  return token as string;
+};
+
+// Private videos play through a token in place of their uid; any that cannot get one are left out
+export const resolvePlayback = async (config: VideoCarouselConfig): Promise<CarouselPlayback> => {
+  const videos = await Promise.all(
+    (config.videos || []).map(async video => {
+      try {
+        const playbackId = video.signed ? await fetchPlaybackToken(config.tokenEndpoint, video.streamId) : video.streamId;
+        return {
+          // VideoContainer asks for the default caption track, so the URL leaves it out
+          url: streamPlayerUrl(config.streamDomain, { ...video, captions: [] }, playbackId),
+          tracks: (video.captions || []).map(language => ({ srclang: language, label: language })),
+        };
+      } catch (error) {
+        console.error(`Could not load ${video.name}:`, error);
+        return null;
+      }
+    }),
+  );
+  const sources = [
+    ...videos.filter(Boolean),
+    ...(config.urls || []).map(url => ({ url, tracks: [] })),
+  ];
+
+  return {
+    urls: sources.map(source => source.url),
+    textTracks: sources.map(source => source.tracks),
+  };
+};
@@ -0,0 +1,55 @@
+import { createRoot, type Root } from 'react-dom/client';
+import VideoCarousel from './VideoCarousel';
+import { readConfig } from './config';
+import styles from './video-carousel.css?inline';
+
+/**
+ * <video-carousel>: VideoContainer as a custom element for customers' sites.
+ * Built on its own by `npm run build:embed`. It renders into a shadow root
+ * with its own stylesheet, so the host page's CSS cannot reach the player.
+ */
+
+class VideoCarouselElement extends HTMLElement {
+  static observedAttributes = ['config', 'urls', 'label'];
+
+  private root: Root | null = null;
+
+  connectedCallback() {
+    const shadow = this.shadowRoot || this.attachShadow({ mode: 'open' });
+    const style = document.createElement('style');
+    style.textContent = styles;
+    const mount = document.createElement('div');
+    shadow.replaceChildren(style, mount);
+    this.root = createRoot(mount);
+
+    // An inline JSON script is only there once the parser has passed the element
+    if (document.readyState === 'loading') {
+      document.addEventListener('DOMContentLoaded', () => this.render(), { once: true });
+    } else {
+      this.render();
+    }
+  }
+
+  disconnectedCallback() {
+    this.root?.unmount();
+    this.root = null;
+  }
+
+  attributeChangedCallback() {
+    if (this.root) this.render();
+  }
+
+  private render() {
+    if (!this.root) return;
+    const config = readConfig(this);
+    if (!config) {
+      console.error('<video-carousel> needs videos from a config attribute, an inline JSON script or urls');
+      return;
+    }
+    this.root.render(<VideoCarousel config={config} />);
+  }
+}
+
+if (!customElements.get('video-carousel')) {
+  customElements.define('video-carousel', VideoCarouselElement);
+}
@@ -0,0 +1,68 @@
+import { useRef, useState, type Dispatch, type DragEvent, type SetStateAction } from "react";
+
+interface UseDragReorderOptions<T extends { id: string }> {
+  items: T[];
+  setItems: Dispatch<SetStateAction<T[]>>;
+  // Called once per drag, with the new order, if the order changed
+  onReorder: (ids: string[]) => void;
+}
+
+const orderKey = (items: { id: string }[]) => items.map((item) => item.id).join(",");
+
+/**
+ * Native HTML5 drag-and-drop reordering for a list held in state.
+ * Items move live while dragging; only a drag that starts on the item's
+ * handle picks it up, so inputs inside the item stay usable.
+ */
+export function useDragReorder<T extends { id: string }>({ items, setItems, onReorder }: UseDragReorderOptions<T>) {
+  const [armedId, setArmedId] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const orderBeforeDrag = useRef("");
+
+  const moveTo = (overId: string) => {
+    if (!draggedId || draggedId === overId) return;
+    setItems((prev) => {
+      const from = prev.findIndex((item) => item.id === draggedId);
+      const to = prev.findIndex((item) => item.id === overId);
+      if (from < 0 || to < 0) return prev;
+
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const finish = () => {
+    setArmedId(null);
+    setDraggedId(null);
+    if (orderKey(items) !== orderBeforeDrag.current) {
+      onReorder(items.map((item) => item.id));
+    }
+  };
+
+  const handleProps = (id: string) => ({
+    onMouseDown: () => setArmedId(id),
+    onMouseUp: () => setArmedId(null),
+  });
+
+  const itemProps = (id: string) => ({
+    draggable: armedId === id,
+    onDragStart: (e: DragEvent) => {
+      e.dataTransfer.effectAllowed = "move";
+      // Firefox only starts a drag that carries data
+      e.dataTransfer.setData("text/plain", id);
+      orderBeforeDrag.current = orderKey(items);
+      setDraggedId(id);
+    },
+    onDragOver: (e: DragEvent) => {
+      if (!draggedId) return;
+      e.preventDefault();
+      moveTo(id);
+    },
+    onDrop: (e: DragEvent) => e.preventDefault(),
+    onDragEnd: finish,
+  });
+
+  return { draggedId, handleProps, itemProps };
+}
@@ -0,0 +1,58 @@
+import { useEffect, useMemo, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+import { buildProcessingUpdate, getStreamVideo } from "@/lib/stream";
+import { isProcessing, type VideoFile } from "@/lib/videos";
+
+const POLL_INTERVAL_MS = 5000;
+
+const hasChanged = (video: VideoFile, updates: TablesUpdate<"videos">) =>
+  (Object.keys(updates) as (keyof TablesUpdate<"videos">)[]).some((key) => video[key] !== updates[key]);
+
+/**
+ * Poll Stream for every video that is still being processed and write the
+ * latest state, duration, dimensions and error reason back to its row.
+ * Polling stops for a video once it reaches a final state.
+ */
+export function useProcessingStatus(
+  videos: VideoFile[],
+  onUpdate: (uid: string, updates: TablesUpdate<"videos">) => void,
+) {
+  const pending = useMemo(() => videos.filter(isProcessing), [videos]);
+  const pendingKey = pending.map((video) => video.uid).join(",");
+
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
+  const onUpdateRef = useRef(onUpdate);
+  onUpdateRef.current = onUpdate;
+
+  useEffect(() => {
+    if (!pendingKey) return;
+
+    let cancelled = false;
+
+    const poll = async () => {
+      await Promise.all(pendingRef.current.map(async (video) => {
+        try {
+          const updates = buildProcessingUpdate(await getStreamVideo(video.uid));
+          if (cancelled || !hasChanged(video, updates)) return;
+
+          const { error } = await supabase.from("videos").update(updates).eq("uid", video.uid);
+          if (error) throw error;
+
+          onUpdateRef.current(video.uid, updates);
+        } catch (error) {
+          console.warn("Failed to refresh processing status:", video.uid, error);
+        }
+      }));
+    };
+
+    poll();
+    const interval = window.setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [pendingKey]);
+}
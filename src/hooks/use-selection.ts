@@ -0,0 +1,38 @@
+import { useCallback, useRef, useState } from "react";
+
+/**
+ * Checkbox selection over an ordered list. A shift-click selects every item
+ * between the last clicked item and this one, like a file manager.
+ */
+export function useSelection(orderedIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const anchorId = useRef<string | null>(null);
+
+  const toggle = useCallback((id: string, extendRange = false) => {
+    const anchorIndex = anchorId.current ? orderedIds.indexOf(anchorId.current) : -1;
+    const index = orderedIds.indexOf(id);
+
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (extendRange && anchorIndex >= 0 && index >= 0) {
+        const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+        orderedIds.slice(start, end + 1).forEach((rangeId) => next.add(rangeId));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    anchorId.current = id;
+  }, [orderedIds]);
+
+  const selectAll = useCallback(() => setSelectedIds(new Set(orderedIds)), [orderedIds]);
+
+  const clear = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorId.current = null;
+  }, []);
+
+  return { selectedIds, toggle, selectAll, clear };
+}
@@ -0,0 +1,126 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { buildVideoRow, getStreamVideo, uploadToStream } from "@/lib/stream";
+
+export type UploadStatus = "queued" | "uploading" | "processing" | "done" | "failed";
+
+export interface QueueEntry {
+  file: File;
+  contentHash?: string;
+}
+
+export interface UploadItem extends QueueEntry {
+  id: string;
+  status: UploadStatus;
+  bytesSent: number;
+  bytesTotal: number;
+  error?: string;
+  // Set once the file is in Stream, so a retry only redoes the library insert
+  streamUid?: string;
+}
+
+interface UseUploadQueueOptions {
+  concurrency: number;
+  onItemDone?: (item: UploadItem) => void;
+}
+
+const isActive = (item: UploadItem) => item.status === "uploading" || item.status === "processing";
+
+export function useUploadQueue({ concurrency, onItemDone }: UseUploadQueueOptions) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef<Map<string, AbortController>>(new Map());
+  const onItemDoneRef = useRef(onItemDone);
+  onItemDoneRef.current = onItemDone;
+
+  const updateItem = useCallback((id: string, updates: Partial<UploadItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  }, []);
+
+  const processItem = useCallback(async (item: UploadItem) => {
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+
+    try {
+      let uid = item.streamUid;
+      if (!uid) {
+        uid = await uploadToStream(item.file, {
+          signal: controller.signal,
+          onProgress: ({ bytesSent, bytesTotal }) => updateItem(item.id, { bytesSent, bytesTotal }),
+        });
+      }
+
+      updateItem(item.id, { status: "processing", streamUid: uid });
+      const videoData = await getStreamVideo(uid);
+
+      const { error } = await supabase.from("videos").insert({
+        ...buildVideoRow(videoData, item.file.name),
+        content_hash: item.contentHash ?? null,
+      });
+      if (error) throw error;
+
+      updateItem(item.id, { status: "done" });
+      onItemDoneRef.current?.(item);
+    } catch (error) {
+      console.error("Upload failed:", item.file.name, error);
+      updateItem(item.id, {
+        status: "failed",
+        error: controller.signal.aborted ? "Cancelled" : error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [updateItem]);
+
+  // Start queued files whenever a slot frees up
+  useEffect(() => {
+    const slots = concurrency - items.filter(isActive).length;
+    if (slots <= 0) return;
+
+    const next = items.filter((item) => item.status === "queued").slice(0, slots);
+    if (next.length === 0) return;
+
+    const nextIds = new Set(next.map((item) => item.id));
+    setItems((prev) => prev.map((item) => (nextIds.has(item.id) ? { ...item, status: "uploading" } : item)));
+    next.forEach(processItem);
+  }, [items, concurrency, processItem]);
+
+  const enqueue = useCallback((entries: QueueEntry[]) => {
+    setItems((prev) => [
+      ...prev,
+      ...entries.map(({ file, contentHash }) => ({
+        id: crypto.randomUUID(),
+        file,
+        contentHash,
+        status: "queued" as const,
+        bytesSent: 0,
+        bytesTotal: file.size,
+      })),
+    ]);
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+    } else {
+      updateItem(id, { status: "failed", error: "Cancelled" });
+    }
+  }, [updateItem]);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: "queued", error: undefined });
+  }, [updateItem]);
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) => prev.filter((item) => item.status !== "done" && item.status !== "failed"));
+  }, []);
+
+  return {
+    items,
+    enqueue,
+    cancel,
+    retry,
+    clearFinished,
+    isRunning: items.some((item) => isActive(item) || item.status === "queued"),
+  };
+}
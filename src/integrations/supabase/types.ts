@@ -14,51 +14,252 @@ export type Database = {
   }
   public: {
     Tables: {
+      collection_videos: {
+        Row: {
+          collection_id: string
+          created_at: string | null
+          position: number
+          video_id: string
+        }
+        Insert: {
+          collection_id: string
+          created_at?: string | null
+          position?: number
+          video_id: string
+        }
+        Update: {
+          collection_id?: string
+          created_at?: string | null
+          position?: number
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_videos_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_videos_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      collections: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      embeds: {
+        Row: {
+          collection_id: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          name: string
+          options: Json
+          template_id: string
+          updated_at: string | null
+          video_ids: string[]
+        }
+        Insert: {
+          collection_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name: string
+          options?: Json
+          template_id?: string
+          updated_at?: string | null
+          video_ids?: string[]
+        }
+        Update: {
+          collection_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          name?: string
+          options?: Json
+          template_id?: string
+          updated_at?: string | null
+          video_ids?: string[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "embeds_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "collections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      video_captions: {
+        Row: {
+          created_at: string | null
+          id: string
+          label: string
+          language: string
+          video_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          label: string
+          language: string
+          video_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          label?: string
+          language?: string
+          video_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_captions_video_id_fkey"
+            columns: ["video_id"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       videos: {
         Row: {
+          alt_text: string | null
+          clip_end: number | null
+          clip_of: string | null
+          clip_start: number | null
+          content_hash: string | null
           created_at: string | null
+          deleted_at: string | null
+          description: string | null
           duration: number | null
+          error_reason: string | null
+          height: number | null
           id: string
           name: string
+          position: number
+          preview_duration: number | null
+          preview_start: number | null
+          processing_progress: number | null
+          require_signed_urls: boolean
           size: number | null
           status: string | null
           stream_url: string
+          tags: string[]
+          thumbnail_path: string | null
+          thumbnail_time: number | null
           thumbnail_url: string | null
           uid: string
           updated_at: string | null
+          width: number | null
         }
         Insert: {
+          alt_text?: string | null
+          clip_end?: number | null
+          clip_of?: string | null
+          clip_start?: number | null
+          content_hash?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
           duration?: number | null
+          error_reason?: string | null
+          height?: number | null
           id?: string
           name: string
+          position?: number
+          preview_duration?: number | null
+          preview_start?: number | null
+          processing_progress?: number | null
+          require_signed_urls?: boolean
           size?: number | null
           status?: string | null
           stream_url: string
+          tags?: string[]
+          thumbnail_path?: string | null
+          thumbnail_time?: number | null
           thumbnail_url?: string | null
           uid: string
           updated_at?: string | null
+          width?: number | null
         }
         Update: {
+          alt_text?: string | null
+          clip_end?: number | null
+          clip_of?: string | null
+          clip_start?: number | null
+          content_hash?: string | null
           created_at?: string | null
+          deleted_at?: string | null
+          description?: string | null
           duration?: number | null
+          error_reason?: string | null
+          height?: number | null
           id?: string
           name?: string
+          position?: number
+          preview_duration?: number | null
+          preview_start?: number | null
+          processing_progress?: number | null
+          require_signed_urls?: boolean
           size?: number | null
           status?: string | null
           stream_url?: string
+          tags?: string[]
+          thumbnail_path?: string | null
+          thumbnail_time?: number | null
           thumbnail_url?: string | null
           uid?: string
           updated_at?: string | null
+          width?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "videos_clip_of_fkey"
+            columns: ["clip_of"]
+            isOneToOne: false
+            referencedRelation: "videos"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      reorder_videos: {
+        Args: { video_ids: string[] }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
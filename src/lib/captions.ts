@@ -0,0 +1,58 @@
+import { workerFetch } from '@/lib/stream';
+
+export interface CaptionTrack {
+  language: string;
+  label: string;
+}
+
+export const CAPTION_LANGUAGES: CaptionTrack[] = [
+  { language: 'en', label: 'English' },
+  { language: 'es', label: 'Español' },
+  { language: 'fr', label: 'Français' },
+  { language: 'de', label: 'Deutsch' },
+  { language: 'it', label: 'Italiano' },
+  { language: 'pt', label: 'Português' },
+  { language: 'nl', label: 'Nederlands' },
+  { language: 'ja', label: '日本語' },
+  { language: 'ko', label: '한국어' },
+  { language: 'zh', label: '中文' },
+  { language: 'ar', label: 'العربية' },
+  { language: 'hi', label: 'हिन्दी' },
+];
+
+/**
+ * Convert SubRip (.srt) captions to WebVTT, the only format Stream accepts.
+ * SRT differs mainly in the header and the comma in cue timestamps.
+ */
+export const srtToVtt = (srt: string) => {
+  const body = srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2')
+    .trim();
+  return `WEBVTT\n\n${body}\n`;
+};
+
+// Read a .vtt or .srt file and return it as a WebVTT file
+export const toVttFile = async (file: File) => {
+  const text = await file.text();
+  const isVtt = text.replace(/^\uFEFF/, '').startsWith('WEBVTT');
+
+  if (isVtt) return file;
+  if (!file.name.toLowerCase().endsWith('.srt')) {
+    throw new Error('Caption files must be WebVTT (.vtt) or SubRip (.srt)');
+  }
+
+  const vttName = file.name.replace(/\.srt$/i, '.vtt');
+  return new File([srtToVtt(text)], vttName, { type: 'text/vtt' });
+};
+
+export const uploadStreamCaption = async (uid: string, language: string, file: File) => {
+  const form = new FormData();
+  form.append('file', await toVttFile(file));
+  return workerFetch(`/api/stream/videos/${uid}/captions/${language}`, { method: 'PUT', body: form });
+};
+
+export const deleteStreamCaption = (uid: string, language: string) =>
+  workerFetch(`/api/stream/videos/${uid}/captions/${language}`, { method: 'DELETE' });
+
@@ -0,0 +1,22 @@
+// Falls back to a hidden textarea where the async clipboard API is unavailable (non-secure origins)
+export const copyToClipboard = async (text: string) => {
+  try {
+    if (navigator.clipboard && window.isSecureContext) {
+      await navigator.clipboard.writeText(text);
+      return true;
+    } else {
+      const textArea = document.createElement('textarea');
+      textArea.value = text;
+      textArea.style.position = 'fixed';
+      textArea.style.left = '-999999px';
+      document.body.appendChild(textArea);
+      textArea.select();
+      const successful = document.execCommand('copy');
+      textArea.remove();
+      return successful;
+    }
+  } catch (error) {
+    console.error('Failed to copy:', error);
+    throw error;
+  }
+};
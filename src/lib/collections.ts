@@ -0,0 +1,25 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { VIDEO_SELECT, compareLibraryOrder, type VideoFile } from '@/lib/videos';
+
+export type Collection = Tables<'collections'> & {
+  collection_videos: (Pick<Tables<'collection_videos'>, 'video_id' | 'position'> & {
+    videos: VideoFile | null;
+  })[];
+};
+
+// Columns to select for collection views. Member videos are embedded because
+// the library only has one page of videos loaded at a time.
+export const COLLECTION_SELECT = `*, collection_videos(video_id, position, videos(${VIDEO_SELECT}))` as const;
+
+// A collection's videos in the collection's own order, preferring fresher copies from the library.
+// Trashed videos keep their membership so a restore puts them back, but are left out meanwhile.
+export const collectionVideos = (collection: Collection, libraryVideos: VideoFile[] = []) => {
+  const loaded = new Map(libraryVideos.map(video => [video.id, video]));
+  return [...collection.collection_videos]
+    .sort((a, b) => a.position - b.position)
+    .map(item => loaded.get(item.video_id) ?? item.videos)
+    .filter((video): video is VideoFile => !!video && !video.deleted_at);
+};
+
+// The collection's videos in the library's manual order
+export const libraryOrderOf = (videos: VideoFile[]) => [...videos].sort(compareLibraryOrder);
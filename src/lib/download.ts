@@ -0,0 +1,10 @@
+// Saves generated text as a file through a temporary object URL
+export const downloadFile = (filename: string, contents: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked once the browser has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { STREAM_WORKER_URL } from '@/lib/stream';
+import { VIDEO_SELECT, type VideoFile } from '@/lib/videos';
+import { getTemplate, withDefaultOptions, type TemplateOptions } from '@/templates';
+
+export type Embed = Tables<'embeds'> & {
+  collections?: { name: string } | null;
+};
+
+// Columns to select for embed lists, with the followed collection's name
+export const EMBED_SELECT = '*, collections(name)';
+
+// Where the video list of a new embed comes from
+export interface EmbedSource {
+  videos: VideoFile[];
+  // Set when generated from a collection; the embed then follows it
+  collection?: { id: string; name: string } | null;
+}
+
+export const embedPageUrl = (embed: Pick<Embed, 'id'>) => `${STREAM_WORKER_URL}/embed/${embed.id}`;
+
+export const embedScriptUrl = (embed: Pick<Embed, 'id'>) => `${STREAM_WORKER_URL}/embed/${embed.id}.js`;
+
+export const embedIframeSnippet = (embed: Pick<Embed, 'id' | 'name'>) =>
+  `<iframe src="${embedPageUrl(embed)}" title="${embed.name.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')}" style="width: 100%; height: 600px; border: none;" allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;" allowfullscreen></iframe>`;
+
+// The loader swaps itself for an iframe that grows to fit the embed's content
+export const embedScriptSnippet = (embed: Pick<Embed, 'id'>) =>
+  `<script src="${embedScriptUrl(embed)}" async></script>`;
+
+export const embedTemplateOptions = (embed: Pick<Embed, 'template_id' | 'options'>): TemplateOptions =>
+  withDefaultOptions({ ...getTemplate(embed.template_id).defaults, ...(embed.options as Partial<TemplateOptions>) });
+
+export const publishEmbed = async (name: string, templateId: string, options: TemplateOptions, source: EmbedSource) => {
+  const { data, error } = await supabase
+    .from('embeds')
+    .insert({
+      name,
+      template_id: templateId,
+      options: options as unknown as Json,
+      collection_id: source.collection?.id ?? null,
+      video_ids: source.videos.map(video => video.id),
+    })
+    .select(EMBED_SELECT)
+    .single();
+  if (error) throw error;
+  return data as Embed;
+};
+
+// Only the look changes; which videos play still comes from the embed's source
+export const updateEmbedTemplate = async (embed: Pick<Embed, 'id'>, templateId: string, options: TemplateOptions) => {
+  const { error } = await supabase
+    .from('embeds')
+    .update({ template_id: templateId, options: options as unknown as Json })
+    .eq('id', embed.id);
+  if (error) throw error;
+};
+
+export const deleteEmbed = async (embed: Pick<Embed, 'id'>) => {
+  const { error } = await supabase.from('embeds').delete().eq('id', embed.id);
+  if (error) throw error;
+};
+
+// The videos an embed currently plays, resolved the same way the worker does
+export const fetchEmbedVideos = async (embed: Pick<Embed, 'collection_id' | 'video_ids'>): Promise<VideoFile[]> => {
+  if (embed.collection_id) {
+    const { data, error } = await supabase
+      .from('collection_videos')
+      .select(`position, videos(${VIDEO_SELECT})`)
+      .eq('collection_id', embed.collection_id)
+      .order('position');
+    if (error) throw error;
+    return (data || []).map(item => item.videos).filter(video => video && !video.deleted_at);
+  }
+
+  if (embed.video_ids.length === 0) return [];
+  const { data, error } = await supabase.from('videos').select(VIDEO_SELECT).in('id', embed.video_ids);
+  if (error) throw error;
+  const byId = new Map((data || []).map(video => [video.id, video]));
+  return embed.video_ids.map(id => byId.get(id)).filter(video => video && !video.deleted_at);
+};
+
+// Embeds showing a video, either through a followed collection or their own list
+export const fetchEmbedsUsing = async (videoId: string, collectionIds: string[]) => {
+  const filters = [`and(collection_id.is.null,video_ids.cs.{${videoId}})`];
+  if (collectionIds.length > 0) filters.push(`collection_id.in.(${collectionIds.join(',')})`);
+
+  const { data, error } = await supabase.from('embeds').select(EMBED_SELECT).or(filters.join(','));
+  if (error) throw error;
+  return (data || []) as Embed[];
+};
@@ -0,0 +1,207 @@
+import { STREAM_ALLOW, escapeHtml, type TemplateData, type VideoTemplate } from '@/templates';
+import { embedIframeSnippet, embedPageUrl, embedScriptSnippet, embedScriptUrl, type Embed } from '@/lib/embeds';
+import { webComponentSnippet } from '@/lib/web-component';
+
+// Everything an export is generated from: the chosen template and options, applied to one set of videos
+export interface ExportInput {
+  template: VideoTemplate;
+  data: TemplateData;
+  // Shown as the player's title, usually the collection's name
+  title: string;
+  // A published embed for the formats that load from the worker
+  embed?: Pick<Embed, 'id' | 'name'> | null;
+}
+
+export interface ExportFormat {
+  id: string;
+  name: string;
+  description: string;
+  filename: string;
+  mimeType: string;
+  // Null when the format needs something first, which the note explains
+  code: string | null;
+  note?: string;
+}
+
+// Matches the hosted embed snippets until the page reports its height
+const FRAME_STYLE = 'width: 100%; height: 600px; border: none;';
+
+const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'video-carousel';
+
+// A frame with the whole page inline, for sites that cannot load it from the worker
+const srcdocIframe = (html: string, title: string) =>
+  `<iframe srcdoc="${escapeHtml(html)}" title="${escapeHtml(title)}" style="${FRAME_STYLE}" allow="${STREAM_ALLOW}" allowfullscreen></iframe>`;
+
+const reactComponent = ({ template, title, embed }: ExportInput, html: string) => {
+  // The hosted page reports its height; an inline page can be measured directly
+  const frame = embed
+    ? `  const frameRef = useRef(null);
+  const [height, setHeight] = useState(600);
+
+  useEffect(() => {
+    const onMessage = (event) => {
+      if (event.source !== frameRef.current?.contentWindow || event.data?.type !== 'video-embed:resize') return;
+      setHeight(Math.ceil(event.data.height));
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  return (
+    <iframe
+      ref={frameRef}
+      src={src}`
+    : `  const observerRef = useRef(null);
+  const [height, setHeight] = useState(600);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measure = (event) => {
+    const root = event.currentTarget.contentDocument?.documentElement;
+    if (!root) return;
+    observerRef.current?.disconnect();
+    observerRef.current = new ResizeObserver(() => setHeight(root.scrollHeight));
+    observerRef.current.observe(root);
+  };
+
+  return (
+    <iframe
+      srcDoc={html}
+      onLoad={measure}`;
+
+  return `'use client';
+
+import { useEffect, useRef, useState } from 'react';
+
+// ${template.name}: ${title}
+const ${embed ? 'src' : 'html'} = ${JSON.stringify(embed ? embedPageUrl(embed) : html)};
+
+export default function VideoCarousel({ className, style }) {
+${frame}
+      title=${JSON.stringify(title)}
+      className={className}
+      style={{ width: '100%', height, border: 'none', ...style }}
+      allow=${JSON.stringify(STREAM_ALLOW)}
+      allowFullScreen
+    />
+  );
+}
+`;
+};
+
+const liquidSection = ({ template, title, embed }: ExportInput, html: string) => {
+  // Liquid reads "{{" and "{%" anywhere, so braces in the inline page stay encoded
+  const player = embed
+    ? embedScriptSnippet(embed)
+    : srcdocIframe(html, title).replace(/\{/g, '&#123;');
+  const schema = {
+    name: 'Video carousel',
+    settings: [{ type: 'text', id: 'heading', label: 'Heading', default: title }],
+    presets: [{ name: 'Video carousel' }],
+  };
+
+  return `{% comment %}
+  ${template.name}: ${title}
+  Save as sections/${fileSlug(title)}.liquid and add it in the theme editor.
+{% endcomment %}
+<div class="page-width">
+  {%- if section.settings.heading != blank -%}
+    <h2>{{ section.settings.heading | escape }}</h2>
+  {%- endif -%}
+  ${player}
+</div>
+
+{% schema %}
+${JSON.stringify(schema, null, 2)}
+{% endschema %}
+`;
+};
+
+const jsonConfig = ({ template, data, title, embed }: ExportInput) =>
+  JSON.stringify(
+    {
+      title,
+      template: template.id,
+      options: data.options,
+      streamDomain: data.streamDomain,
+      tokenEndpoint: data.tokenEndpoint,
+      ...(embed && { embed: { page: embedPageUrl(embed), script: embedScriptUrl(embed) } }),
+      videos: data.videos,
+    },
+    null,
+    2,
+  );
+
+// Every format the export dialog offers, in display order
+export const buildExportFormats = (input: ExportInput): ExportFormat[] => {
+  const { template, data, title, embed } = input;
+  const slug = fileSlug(title);
+  const html = template.render(data);
+
+  return [
+    {
+      id: 'html',
+      name: 'HTML page',
+      description: 'A complete standalone page to host anywhere.',
+      filename: `${slug}.html`,
+      mimeType: 'text/html',
+      code: html,
+    },
+    {
+      id: 'iframe',
+      name: 'Iframe',
+      description: 'For page builders with an embed or custom HTML block.',
+      filename: `${slug}-iframe.html`,
+      mimeType: 'text/html',
+      code: embed ? embedIframeSnippet(embed) : srcdocIframe(html, title),
+      note: embed
+        ? `Loads the hosted embed "${embed.name}", so it shows its saved look.`
+        : 'Carries its own copy of the page. Publish a hosted embed for an iframe that follows library changes.',
+    },
+    {
+      id: 'script',
+      name: 'Script tag',
+      description: 'One line that inserts the player and sizes it to fit.',
+      filename: `${slug}-script.html`,
+      mimeType: 'text/html',
+      code: embed ? embedScriptSnippet(embed) : null,
+      note: embed
+        ? `Loads the hosted embed "${embed.name}", so it shows its saved look.`
+        : 'The script loads a hosted embed from the worker. Publish one first to get its tag.',
+    },
+    {
+      id: 'json',
+      name: 'JSON config',
+      description: 'The videos, template and options as data for your own front end.',
+      filename: `${slug}.json`,
+      mimeType: 'application/json',
+      code: jsonConfig(input),
+    },
+    {
+      id: 'react',
+      name: 'React component',
+      description: 'A drop-in JSX component, ready for Next.js client components.',
+      filename: 'VideoCarousel.jsx',
+      mimeType: 'text/javascript',
+      code: reactComponent(input, html),
+    },
+    {
+      id: 'liquid',
+      name: 'Shopify section',
+      description: 'A Liquid section with an editable heading for Shopify themes.',
+      filename: `${slug}.liquid`,
+      mimeType: 'text/plain',
+      code: liquidSection(input, html),
+    },
+    {
+      id: 'web-component',
+      name: 'Web Component',
+      description: 'The <video-carousel> element with the full player controls.',
+      filename: `${slug}-element.html`,
+      mimeType: 'text/html',
+      code: webComponentSnippet(data, title),
+      note: 'Uses its own player, so the template and its options do not apply.',
+    },
+  ];
+};
@@ -0,0 +1,136 @@
+import { supabase } from '@/integrations/supabase/client';
+import { VIDEO_SELECT } from '@/lib/videos';
+
+export const LIBRARY_PAGE_SIZE = 24;
+
+export type LibraryStatusFilter = 'all' | 'ready' | 'processing' | 'error' | 'unknown';
+export type LibrarySort = 'position' | 'name' | 'size' | 'duration' | 'created_at';
+export type SortDirection = 'asc' | 'desc';
+
+export interface LibraryQuery {
+  search: string;
+  status: LibraryStatusFilter;
+  // Inclusive upload date range, as YYYY-MM-DD
+  from: string;
+  to: string;
+  // Inclusive size range in megabytes
+  minSize: string;
+  maxSize: string;
+  sort: LibrarySort;
+  direction: SortDirection;
+}
+
+export const DEFAULT_LIBRARY_QUERY: LibraryQuery = {
+  search: '',
+  status: 'all',
+  from: '',
+  to: '',
+  minSize: '',
+  maxSize: '',
+  sort: 'position',
+  direction: 'asc',
+};
+
+const STATUSES: LibraryStatusFilter[] = ['all', 'ready', 'processing', 'error', 'unknown'];
+const SORTS: LibrarySort[] = ['position', 'name', 'size', 'duration', 'created_at'];
+const BYTES_PER_MB = 1024 * 1024;
+
+const oneOf = <T extends string>(value: string | null, allowed: T[], fallback: T) =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const parseLibraryQuery = (params: URLSearchParams): LibraryQuery => ({
+  search: params.get('q') || '',
+  status: oneOf(params.get('status'), STATUSES, DEFAULT_LIBRARY_QUERY.status),
+  from: params.get('from') || '',
+  to: params.get('to') || '',
+  minSize: params.get('minSize') || '',
+  maxSize: params.get('maxSize') || '',
+  sort: oneOf(params.get('sort'), SORTS, DEFAULT_LIBRARY_QUERY.sort),
+  direction: oneOf(params.get('dir'), ['asc', 'desc'], DEFAULT_LIBRARY_QUERY.direction),
+});
+
+// Only non-default values go in the URL, so an unfiltered library has a clean address
+export const toSearchParams = (query: LibraryQuery) => {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string, fallback: string) => {
+    if (value && value !== fallback) params.set(key, value);
+  };
+
+  set('q', query.search.trim(), '');
+  set('status', query.status, DEFAULT_LIBRARY_QUERY.status);
+  set('from', query.from, '');
+  set('to', query.to, '');
+  set('minSize', query.minSize, '');
+  set('maxSize', query.maxSize, '');
+  set('sort', query.sort, DEFAULT_LIBRARY_QUERY.sort);
+  set('dir', query.direction, DEFAULT_LIBRARY_QUERY.direction);
+  return params;
+};
+
+// Manual ordering only makes sense over the whole, unfiltered library
+export const isManualOrder = (query: LibraryQuery) =>
+  toSearchParams({ ...query, direction: DEFAULT_LIBRARY_QUERY.direction }).toString() === '';
+
+// PostgREST filter syntax reserves these characters inside `or` expressions
+const sanitizeSearch = (term: string) => term.replace(/[,()"{}\\]/g, ' ').trim();
+
+// Match "%" and "_" literally rather than as ilike wildcards
+const escapeLikePattern = (term: string) => term.replace(/[%_]/g, '\\$&');
+
+// Midnight at the start of a YYYY-MM-DD day in the user's timezone, `days` later, as an ISO timestamp
+const startOfLocalDay = (date: string, days = 0) => {
+  const start = new Date(`${date}T00:00:00`);
+  if (Number.isNaN(start.getTime())) return null;
+  start.setDate(start.getDate() + days);
+  return start.toISOString();
+};
+
+const megabytes = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * BYTES_PER_MB) : null;
+};
+
+/**
+ * Build the Supabase request for one page of the library. Every toolbar
+ * option maps onto a server-side filter or order, so only the requested
+ * page is transferred.
+ */
+export const buildLibraryRequest = (query: LibraryQuery, page: number) => {
+  let request = supabase.from('videos').select(VIDEO_SELECT, { count: 'exact' }).is('deleted_at', null);
+
+  const term = sanitizeSearch(query.search);
+  if (term) {
+    request = request.or(`name.ilike.%${escapeLikePattern(term)}%,tags.cs.{"${term.toLowerCase()}"}`);
+  }
+
+  // Same split as isProcessing: rows Stream has not reported on yet are "unknown", not processing
+  if (query.status === 'processing') {
+    request = request.not('status', 'in', '(ready,error,unknown)');
+  } else if (query.status === 'unknown') {
+    request = request.or('status.eq.unknown,status.is.null');
+  } else if (query.status !== 'all') {
+    request = request.eq('status', query.status);
+  }
+
+  // The range is in local days; the end bound is the start of the day after `to`
+  const from = query.from && startOfLocalDay(query.from);
+  const until = query.to && startOfLocalDay(query.to, 1);
+  if (from) request = request.gte('created_at', from);
+  if (until) request = request.lt('created_at', until);
+
+  const minBytes = megabytes(query.minSize);
+  const maxBytes = megabytes(query.maxSize);
+  if (minBytes !== null) request = request.gte('size', minBytes);
+  if (maxBytes !== null) request = request.lte('size', maxBytes);
+
+  if (query.sort === 'position') {
+    request = request.order('position', { ascending: true }).order('created_at', { ascending: false });
+  } else {
+    request = request
+      .order(query.sort, { ascending: query.direction === 'asc', nullsFirst: false })
+      .order('id', { ascending: true });
+  }
+
+  const start = page * LIBRARY_PAGE_SIZE;
+  return request.range(start, start + LIBRARY_PAGE_SIZE - 1);
+};
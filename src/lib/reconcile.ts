@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { StreamVideo } from '@/lib/stream';
+import type { VideoFile } from '@/lib/videos';
+
+// Requested per page; the server may cap pages lower with its max-rows setting
+const ROW_PAGE_SIZE = 1000;
+
+export interface ReconcileReport {
+  // In Stream but missing from the videos table
+  streamOnly: StreamVideo[];
+  // In the videos table but gone from Stream
+  rowOnly: VideoFile[];
+  matched: number;
+}
+
+// Every videos row. A single select stops at the server's row limit, which would
+// report everything past it as missing from the table.
+export const fetchAllVideoRows = async () => {
+  const rows: VideoFile[] = [];
+  for (;;) {
+    const { data, error } = await supabase
+      .from('videos')
+      .select('*')
+      .order('id')
+      .range(rows.length, rows.length + ROW_PAGE_SIZE - 1);
+    if (error) throw error;
+    if (!data || data.length === 0) return rows;
+    rows.push(...data);
+  }
+};
+
+export const reconcileLibrary = (streamVideos: StreamVideo[], rows: VideoFile[]): ReconcileReport => {
+  const streamUids = new Set(streamVideos.map(video => video.uid));
+  const rowUids = new Set(rows.map(row => row.uid));
+
+  return {
+    // Uploads still in progress get their row once they finish
+    streamOnly: streamVideos.filter(video => !rowUids.has(video.uid) && video.status?.state !== 'pendingupload'),
+    rowOnly: rows.filter(row => !streamUids.has(row.uid)),
+    matched: rows.filter(row => streamUids.has(row.uid)).length,
+  };
+};
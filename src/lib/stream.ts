@@ -0,0 +1,248 @@
+import * as tus from 'tus-js-client';
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert, TablesUpdate } from '@/integrations/supabase/types';
+
+// The Stream API token lives in the worker; the browser only talks to these routes
+export const STREAM_WORKER_URL = import.meta.env.VITE_STREAM_WORKER_URL;
+export const STREAM_CUSTOMER_CODE = import.meta.env.VITE_STREAM_CUSTOMER_CODE;
+export const STREAM_DOMAIN = `customer-${STREAM_CUSTOMER_CODE}.cloudflarestream.com`;
+
+// Stream requires tus chunks to be a multiple of 256 KiB and at least 5 MB.
+// 50 MB keeps the request count low while limiting what a dropped connection costs.
+const TUS_CHUNK_SIZE = 50 * 1024 * 1024;
+
+// Pending uploads are remembered per file so a reload can resume them
+const RESUME_KEY_PREFIX = 'stream-upload:';
+
+export interface StreamVideo {
+  uid: string;
+  created?: string;
+  size?: number;
+  duration?: number;
+  meta?: { name?: string };
+  status?: {
+    state?: string;
+    pctComplete?: string;
+    errorReasonCode?: string;
+    errorReasonText?: string;
+  };
+  input?: { width?: number; height?: number };
+}
+
+export interface UploadProgress {
+  bytesSent: number;
+  bytesTotal: number;
+}
+
+interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface DirectUpload {
+  uploadURL: string;
+  uid: string;
+}
+
+// Call a worker route as the signed-in admin and unwrap its JSON body, surfacing the worker's error message
+export const workerFetch = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const headers = new Headers(init.headers);
+  if (session) headers.set('Authorization', `Bearer ${session.access_token}`);
+
+  const response = await fetch(`${STREAM_WORKER_URL}${path}`, { ...init, headers });
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(data?.error || `Request failed: ${response.status} ${response.statusText}`);
+  }
+  return data as T;
+};
+
+const requestDirectUpload = (file: File, signal?: AbortSignal) =>
+  workerFetch<DirectUpload>('/api/stream/direct-upload', {
+    method: 'POST',
+    signal,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ size: file.size, name: file.name, type: file.type }),
+  });
+
+const resumeKey = (file: File) => `${RESUME_KEY_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+
+const readPendingUpload = (file: File): DirectUpload | null => {
+  try {
+    const stored = localStorage.getItem(resumeKey(file));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+// The upload URL is gone (expired, finished or never created); a fresh one is needed
+const isStaleUploadError = (error: unknown) => {
+  const status = (error as tus.DetailedError)?.originalResponse?.getStatus();
+  return status === 403 || status === 404 || status === 410;
+};
+
+const runTusUpload = (file: File, uploadUrl: string, { onProgress, signal }: UploadOptions) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Upload cancelled', 'AbortError'));
+      return;
+    }
+
+    // Aborting keeps the server-side upload, so a retry resumes from its offset
+    const onAbort = () => {
+      upload.abort().finally(() => reject(new DOMException('Upload cancelled', 'AbortError')));
+    };
+
+    const upload = new tus.Upload(file, {
+      uploadUrl,
+      chunkSize: TUS_CHUNK_SIZE,
+      retryDelays: [0, 3000, 5000, 10000, 20000],
+      // Resume state is kept by uploadToStream, keyed on the worker-issued URL
+      storeFingerprintForResuming: false,
+      onProgress: (bytesSent, bytesTotal) => {
+        onProgress?.({ bytesSent, bytesTotal });
+      },
+      onError: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+      onSuccess: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      },
+    });
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    upload.start();
+  });
+};
+
+/**
+ * Upload a file to Cloudflare Stream using the tus resumable protocol.
+ * The worker issues a one-time upload URL, so no account credentials reach
+ * the browser. If an earlier attempt for the same file was interrupted, the
+ * upload continues from the last offset the server committed. Resolves with
+ * the Stream video uid.
+ */
+export const uploadToStream = async (file: File, options: UploadOptions = {}) => {
+  const key = resumeKey(file);
+  const pending = readPendingUpload(file);
+
+  if (pending) {
+    try {
+      await runTusUpload(file, pending.uploadURL, options);
+      localStorage.removeItem(key);
+      return pending.uid;
+    } catch (error) {
+      if (!isStaleUploadError(error)) throw error;
+      // The saved upload URL is no longer valid, so start over with a fresh one
+      localStorage.removeItem(key);
+    }
+  }
+
+  const directUpload = await requestDirectUpload(file, options.signal);
+  localStorage.setItem(key, JSON.stringify(directUpload));
+
+  await runTusUpload(file, directUpload.uploadURL, options);
+  localStorage.removeItem(key);
+  return directUpload.uid;
+};
+
+export const getStreamVideo = (uid: string) =>
+  workerFetch<StreamVideo>(`/api/stream/videos/${uid}`);
+
+// Private videos can only be played with a token minted by the worker
+export const setRequireSignedUrls = (uid: string, required: boolean) =>
+  workerFetch<StreamVideo>(`/api/stream/videos/${uid}/signed-urls`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ required }),
+  });
+
+// A short-lived token that replaces the uid in playback URLs of a private video
+export const getPlaybackToken = (uid: string) =>
+  workerFetch<{ token: string; expiresAt: number }>(`/api/playback/token/${uid}`);
+
+export const listStreamVideos = () =>
+  workerFetch<StreamVideo[]>('/api/stream/videos');
+
+export const deleteStreamVideo = (uid: string) =>
+  workerFetch<{ success: boolean }>(`/api/stream/videos/${uid}`, { method: 'DELETE' });
+
+// Ask Stream to pull a video from a remote URL; it is processed like an upload
+export const copyFromUrl = (url: string, name?: string) =>
+  workerFetch<StreamVideo>('/api/stream/copy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, name }),
+  });
+
+// Stream's clip API works in whole seconds
+export const createStreamClip = (uid: string, start: number, end: number, name: string) =>
+  workerFetch<StreamVideo>('/api/stream/clip', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ uid, start, end, name }),
+  });
+
+export const buildStreamUrl = (uid: string) => `https://${STREAM_DOMAIN}/${uid}/iframe`;
+
+export const buildThumbnailUrl = (uid: string) => `https://${STREAM_DOMAIN}/${uid}/thumbnails/thumbnail.jpg`;
+
+// A single frame as a still image, which is far cheaper than seeking a player
+export const buildFrameUrl = (uid: string, time: number, height: number) =>
+  `${buildThumbnailUrl(uid)}?time=${Number(time.toFixed(3))}s&height=${height}`;
+
+// Responsive iframe markup for embedding a single video outside a carousel
+export const buildEmbedSnippet = (
+  video: { uid: string; name: string; width?: number | null; height?: number | null },
+  poster?: string | null,
+) => {
+  const params = new URLSearchParams({ preload: 'true' });
+  if (poster) params.set('poster', poster);
+  const ratio = video.width && video.height ? (video.height / video.width) * 100 : 56.25;
+  const title = video.name.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+  return `<div style="position: relative; padding-top: ${Number(ratio.toFixed(4))}%;">
+  <iframe
+    src="${buildStreamUrl(video.uid)}?${params}"
+    title="${title}"
+    loading="lazy"
+    style="border: none; position: absolute; top: 0; left: 0; height: 100%; width: 100%;"
+    allow="accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;"
+    allowfullscreen="true"
+  ></iframe>
+</div>`;
+};
+
+// Stream reports -1 for duration until the video has been transcoded
+const knownDuration = (duration?: number) => (duration && duration > 0 ? duration : 0);
+
+// Processing fields shared by new rows and the status tracker
+export const buildProcessingUpdate = (videoData: StreamVideo): TablesUpdate<'videos'> => {
+  const status = typeof videoData.status === 'object' ? videoData.status : undefined;
+  const progress = status?.pctComplete ? parseFloat(status.pctComplete) : null;
+
+  return {
+    status: status ? status.state : 'ready',
+    duration: knownDuration(videoData.duration),
+    width: videoData.input?.width > 0 ? videoData.input.width : null,
+    height: videoData.input?.height > 0 ? videoData.input.height : null,
+    processing_progress: Number.isFinite(progress) ? progress : null,
+    error_reason: status?.errorReasonText || status?.errorReasonCode || null,
+  };
+};
+
+// Shape a Stream video into a row for the videos table
+export const buildVideoRow = (videoData: StreamVideo, fallbackName: string): TablesInsert<'videos'> => ({
+  ...buildProcessingUpdate(videoData),
+  uid: videoData.uid,
+  name: videoData.meta?.name || fallbackName,
+  stream_url: buildStreamUrl(videoData.uid),
+  thumbnail_url: buildThumbnailUrl(videoData.uid),
+  size: videoData.size || 0,
+});
@@ -0,0 +1,11 @@
+import { toTemplateVideo, type TemplateData, type TemplateOptions } from '@/templates';
+import { STREAM_DOMAIN, STREAM_WORKER_URL } from '@/lib/stream';
+import type { VideoFile } from '@/lib/videos';
+
+// What generated markup needs to know about a set of videos, in play order
+export const buildTemplateData = (videos: VideoFile[], options: TemplateOptions): TemplateData => ({
+  videos: videos.map(video => toTemplateVideo(video, STREAM_DOMAIN)),
+  streamDomain: STREAM_DOMAIN,
+  tokenEndpoint: `${STREAM_WORKER_URL}/api/playback/token/`,
+  options,
+});
@@ -0,0 +1,123 @@
+import { supabase } from '@/integrations/supabase/client';
+import { STREAM_DOMAIN, buildThumbnailUrl } from '@/lib/stream';
+import { previewAnimationUrl } from '@/templates/videos';
+import type { VideoFile } from '@/lib/videos';
+
+export const THUMBNAIL_BUCKET = 'thumbnails';
+// Matches the bucket's file_size_limit
+export const THUMBNAIL_MAX_BYTES = 5 * 1024 * 1024;
+export const THUMBNAIL_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+// The video frame in the generated glass carousel
+export const CAROUSEL_ASPECT_RATIO = 1920 / 1398;
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+type ThumbnailFields = Pick<VideoFile, 'uid' | 'thumbnail_url' | 'thumbnail_path' | 'thumbnail_time'>;
+
+export const hasCustomThumbnail = (video: Pick<VideoFile, 'thumbnail_path'>) => !!video.thumbnail_path;
+
+// The image a video is shown with: the custom poster if there is one, otherwise its chosen Stream frame
+export const displayThumbnailUrl = (video: ThumbnailFields) => {
+  if (hasCustomThumbnail(video) || video.thumbnail_time == null) return video.thumbnail_url;
+  return `${buildThumbnailUrl(video.uid)}?time=${video.thumbnail_time}s`;
+};
+
+const loadImage = (file: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read this image'));
+    };
+    image.src = url;
+  });
+
+/**
+ * Crop an image to an aspect ratio on a canvas. `focus` (0–1) picks which
+ * part of the overflowing side is kept: 0 is the top or left edge, 1 the
+ * bottom or right.
+ */
+export const cropToAspect = async (file: File, aspectRatio: number, focus = 0.5): Promise<Blob> => {
+  const image = await loadImage(file);
+  const { naturalWidth: width, naturalHeight: height } = image;
+
+  const cropWidth = Math.min(width, Math.round(height * aspectRatio));
+  const cropHeight = Math.min(height, Math.round(width / aspectRatio));
+  const x = Math.round((width - cropWidth) * focus);
+  const y = Math.round((height - cropHeight) * focus);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = cropWidth;
+  canvas.height = cropHeight;
+  canvas.getContext('2d').drawImage(image, x, y, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not crop this image'))),
+      file.type,
+      0.92,
+    );
+  });
+};
+
+export const removeStoredThumbnail = async (path: string | null) => {
+  if (!path) return;
+  const { error } = await supabase.storage.from(THUMBNAIL_BUCKET).remove([path]);
+  if (error) console.warn('Failed to remove old thumbnail:', path, error);
+};
+
+// Each upload gets a fresh path, so browsers and CDNs never show a cached older poster
+export const uploadCustomThumbnail = async (video: Pick<VideoFile, 'id' | 'uid' | 'thumbnail_path'>, image: Blob) => {
+  const path = `${video.uid}/${Date.now()}.${EXTENSIONS[image.type] || 'jpg'}`;
+  const { error: uploadError } = await supabase.storage
+    .from(THUMBNAIL_BUCKET)
+    .upload(path, image, { contentType: image.type });
+  if (uploadError) throw uploadError;
+
+  const updates = {
+    thumbnail_path: path,
+    thumbnail_url: supabase.storage.from(THUMBNAIL_BUCKET).getPublicUrl(path).data.publicUrl,
+  };
+  const { error } = await supabase.from('videos').update(updates).eq('id', video.id);
+  if (error) {
+    await removeStoredThumbnail(path);
+    throw error;
+  }
+
+  await removeStoredThumbnail(video.thumbnail_path);
+  return updates;
+};
+
+// Back to Stream's generated thumbnail, optionally clearing the chosen frame as well
+export const resetThumbnail = async (
+  video: Pick<VideoFile, 'id' | 'uid' | 'thumbnail_path'>,
+  { clearFrame = false } = {},
+) => {
+  const updates = {
+    thumbnail_path: null,
+    thumbnail_url: buildThumbnailUrl(video.uid),
+    ...(clearFrame ? { thumbnail_time: null } : {}),
+  };
+  const { error } = await supabase.from('videos').update(updates).eq('id', video.id);
+  if (error) throw error;
+
+  await removeStoredThumbnail(video.thumbnail_path);
+  return updates;
+};
+
+export { DEFAULT_PREVIEW_DURATION, MAX_PREVIEW_DURATION, previewWindow } from '@/templates/videos';
+
+type PreviewFields = Pick<VideoFile, 'uid' | 'duration' | 'preview_start' | 'preview_duration' | 'require_signed_urls'>;
+
+// Animated preview on this app's Stream customer domain
+export const animatedPreviewUrl = (video: PreviewFields, height: number, format: 'gif' | 'webp' = 'gif') =>
+  previewAnimationUrl(STREAM_DOMAIN, video, height, format);
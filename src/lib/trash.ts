@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+import { deleteStreamVideo } from '@/lib/stream';
+import { removeStoredThumbnail } from '@/lib/thumbnails';
+import type { VideoFile } from '@/lib/videos';
+
+// Keep in step with TRASH_RETENTION_DAYS in wrangler.toml; the worker's cron does the purging
+export const TRASH_RETENTION_DAYS = Number(import.meta.env.VITE_TRASH_RETENTION_DAYS) || 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const moveToTrash = async (ids: string[]) => {
+  const { error } = await supabase
+    .from('videos')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('id', ids);
+  if (error) throw error;
+};
+
+export const restoreFromTrash = async (ids: string[]) => {
+  const { error } = await supabase.from('videos').update({ deleted_at: null }).in('id', ids);
+  if (error) throw error;
+};
+
+// The only path that removes a video from Stream
+export const purgeVideo = async (video: Pick<VideoFile, 'id' | 'uid' | 'thumbnail_path'>) => {
+  await deleteStreamVideo(video.uid);
+  const { error } = await supabase.from('videos').delete().eq('id', video.id);
+  if (error) throw error;
+  await removeStoredThumbnail(video.thumbnail_path);
+};
+
+export const purgeDate = (video: Pick<VideoFile, 'deleted_at'>) =>
+  new Date(new Date(video.deleted_at).getTime() + TRASH_RETENTION_DAYS * DAY_MS);
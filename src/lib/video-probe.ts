@@ -0,0 +1,138 @@
+import { sha256 } from '@noble/hashes/sha2';
+
+export interface VideoProbe {
+  duration: number | null;
+  width: number | null;
+  height: number | null;
+  codecHint: string | null;
+  contentHash: string;
+}
+
+export interface PreflightWarning {
+  kind: 'oversized' | 'too-long' | 'unsupported' | 'duplicate';
+  message: string;
+}
+
+// Limits for warnings only; files past them can still be uploaded after confirming
+export const PREFLIGHT_LIMITS = {
+  maxSizeBytes: 4 * 1024 * 1024 * 1024,
+  maxDurationSeconds: 15 * 60,
+};
+
+// Containers Cloudflare Stream accepts as input
+const SUPPORTED_EXTENSIONS = ['mp4', 'mkv', 'mov', 'avi', 'flv', 'ts', 'mts', 'm2ts', 'mxf', 'lxf', 'gxf', '3gp', 'webm', 'mpg', 'mpeg', 'qt'];
+
+// Read this much from the start and end of a file to look for codec boxes
+const CODEC_SAMPLE_BYTES = 4 * 1024 * 1024;
+// The whole file is hashed a chunk at a time, so large files never sit in memory
+const HASH_CHUNK_BYTES = 8 * 1024 * 1024;
+const METADATA_TIMEOUT_MS = 10000;
+
+// Sample entry fourccs found in MP4/MOV/MKV headers, mapped to readable names
+const CODEC_SIGNATURES: [string, string][] = [
+  ['avc1', 'H.264'],
+  ['avc3', 'H.264'],
+  ['hvc1', 'HEVC'],
+  ['hev1', 'HEVC'],
+  ['av01', 'AV1'],
+  ['vp09', 'VP9'],
+  ['vp08', 'VP8'],
+  ['apcn', 'ProRes'],
+  ['apch', 'ProRes'],
+  ['ap4h', 'ProRes'],
+  ['mp4v', 'MPEG-4'],
+  ['V_MPEG4/ISO/AVC', 'H.264'],
+  ['V_MPEGH/ISO/HEVC', 'HEVC'],
+  ['V_VP9', 'VP9'],
+  ['V_AV1', 'AV1'],
+];
+
+const fileExtension = (file: File) => file.name.split('.').pop()?.toLowerCase() || '';
+
+export const isSupportedContainer = (file: File) => SUPPORTED_EXTENSIONS.includes(fileExtension(file));
+
+// Head and tail slices; small files are read whole
+const sampleSlices = (file: File) => {
+  if (file.size <= CODEC_SAMPLE_BYTES * 2) return [file];
+  return [file.slice(0, CODEC_SAMPLE_BYTES), file.slice(file.size - CODEC_SAMPLE_BYTES)];
+};
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 of the whole file, so equal hashes mean identical content
+const hashFile = async (file: File) => {
+  const hash = sha256.create();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_BYTES) {
+    const chunk = await file.slice(offset, offset + HASH_CHUNK_BYTES).arrayBuffer();
+    hash.update(new Uint8Array(chunk));
+  }
+  return toHex(hash.digest());
+};
+
+// Codec boxes live in the header, which is at the start or end of the file
+const detectCodec = (samples: ArrayBuffer[]) => {
+  const decoder = new TextDecoder('latin1');
+  const text = samples.map(sample => decoder.decode(sample)).join('');
+  return CODEC_SIGNATURES.find(([signature]) => text.includes(signature))?.[1] || null;
+};
+
+const readMetadata = (file: File) => {
+  return new Promise<Pick<VideoProbe, 'duration' | 'width' | 'height'>>((resolve) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(file);
+
+    const finish = (result: Pick<VideoProbe, 'duration' | 'width' | 'height'>) => {
+      clearTimeout(timeout);
+      URL.revokeObjectURL(url);
+      video.removeAttribute('src');
+      video.load();
+      resolve(result);
+    };
+
+    // Browsers can't decode every container (e.g. MKV in Safari); that is not fatal
+    const timeout = window.setTimeout(() => finish({ duration: null, width: null, height: null }), METADATA_TIMEOUT_MS);
+
+    video.preload = 'metadata';
+    video.muted = true;
+    video.onloadedmetadata = () => finish({
+      duration: Number.isFinite(video.duration) ? video.duration : null,
+      width: video.videoWidth || null,
+      height: video.videoHeight || null,
+    });
+    video.onerror = () => finish({ duration: null, width: null, height: null });
+    video.src = url;
+  });
+};
+
+export const probeVideo = async (file: File): Promise<VideoProbe> => {
+  const samples = await Promise.all(sampleSlices(file).map(slice => slice.arrayBuffer()));
+  const [metadata, contentHash] = await Promise.all([
+    readMetadata(file),
+    hashFile(file),
+  ]);
+
+  return {
+    ...metadata,
+    codecHint: detectCodec(samples),
+    contentHash,
+  };
+};
+
+export const preflightWarnings = (file: File, probe: VideoProbe): PreflightWarning[] => {
+  const warnings: PreflightWarning[] = [];
+
+  if (file.size > PREFLIGHT_LIMITS.maxSizeBytes) {
+    warnings.push({ kind: 'oversized', message: 'Larger than the recommended upload size' });
+  }
+  if (probe.duration && probe.duration > PREFLIGHT_LIMITS.maxDurationSeconds) {
+    warnings.push({ kind: 'too-long', message: 'Longer than the recommended duration' });
+  }
+  if (!isSupportedContainer(file)) {
+    warnings.push({ kind: 'unsupported', message: `.${fileExtension(file)} files are not supported by Stream` });
+  } else if (probe.duration === null && !probe.codecHint) {
+    warnings.push({ kind: 'unsupported', message: 'Could not read this file; it may be corrupt or use an unsupported codec' });
+  }
+
+  return warnings;
+};
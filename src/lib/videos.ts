@@ -0,0 +1,29 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { CaptionTrack } from '@/lib/captions';
+
+export type VideoFile = Tables<'videos'> & {
+  video_captions?: CaptionTrack[];
+};
+
+// Columns to select for library views, including each video's caption tracks
+export const VIDEO_SELECT = '*, video_captions(language, label)';
+
+// Stream states after which a video will not change on its own
+const FINAL_STATES = ['ready', 'error'];
+
+export const isProcessing = (video: Pick<VideoFile, 'status'>) =>
+  !!video.status && !FINAL_STATES.includes(video.status) && video.status !== 'unknown';
+
+// Tags are typed as a comma-separated list; blanks and repeats are dropped
+export const parseTags = (input: string) =>
+  Array.from(new Set(input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+// Text that describes a video's thumbnail to screen readers
+export const videoAltText = (video: Pick<VideoFile, 'name' | 'alt_text'>) =>
+  video.alt_text?.trim() || video.name;
+
+// The library's manual order: position first, then newest first for unplaced uploads
+export const compareLibraryOrder = (
+  a: Pick<VideoFile, 'position' | 'created_at'>,
+  b: Pick<VideoFile, 'position' | 'created_at'>,
+) => a.position - b.position || (b.created_at || '').localeCompare(a.created_at || '');
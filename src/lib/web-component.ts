@@ -0,0 +1,23 @@
+import type { VideoCarouselConfig } from '@/embed/config';
+import type { TemplateData } from '@/templates';
+
+// The <video-carousel> bundle from `npm run build:embed`, deployed alongside the app
+export const WEB_COMPONENT_URL =
+  import.meta.env.VITE_WEB_COMPONENT_URL || `${window.location.origin}/embed/video-carousel.js`;
+
+// Markup that loads the bundle and configures one element with inline JSON
+export const webComponentSnippet = (data: TemplateData, title?: string) => {
+  const config: VideoCarouselConfig = {
+    title,
+    videos: data.videos,
+    streamDomain: data.streamDomain,
+    tokenEndpoint: data.tokenEndpoint,
+  };
+  // Escaping "<" keeps a video name from closing the script tag
+  const json = JSON.stringify(config, null, 2).replace(/</g, '\\u003c');
+
+  return `<script src="${WEB_COMPONENT_URL}" defer></script>
+<video-carousel>
+  <script type="application/json">${json}</script>
+</video-carousel>`;
+};
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { Button } from '../components/ui/button';
+import { Input } from '../components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+
+// Admins are Supabase Auth users; the worker only accepts their session tokens
+export default function Login() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [signingIn, setSigningIn] = useState(false);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSigningIn(true);
+    try {
+      const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Sign in failed:', error);
+      toast.error(`Sign in failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50 p-6">
+      <Card className="w-full max-w-sm border-2 border-orange-200/50 shadow-xl bg-white/90">
+        <CardHeader>
+          <CardTitle className="text-orange-800">Sign in</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={signIn} className="space-y-3">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Email"
+              autoComplete="email"
+              required
+            />
+            <Input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password"
+              autoComplete="current-password"
+              required
+            />
+            <Button type="submit" disabled={signingIn} className="w-full bg-orange-500 hover:bg-orange-600 text-white">
+              {signingIn ? 'Signing in...' : 'Sign in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { ArrowLeft, Copy, ExternalLink, ImagePlus, Lock, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import VideoContainer from '../components/VideoContainer';
+import VideoMetadataEditor from '../components/VideoMetadataEditor';
+import FrameScrubber from '../components/FrameScrubber';
+import ThumbnailUploader from '../components/ThumbnailUploader';
+import { supabase } from '@/integrations/supabase/client';
+import { VIDEO_SELECT, isProcessing, videoAltText, type VideoFile } from '@/lib/videos';
+import { buildEmbedSnippet, buildFrameUrl, buildStreamUrl, getPlaybackToken } from '@/lib/stream';
+import { displayThumbnailUrl, hasCustomThumbnail } from '@/lib/thumbnails';
+import { formatDuration, formatFileSize } from '@/lib/format';
+import { copyToClipboard } from '@/lib/clipboard';
+import { embedPageUrl, fetchEmbedsUsing, type Embed } from '@/lib/embeds';
+import { getTemplate } from '@/templates';
+import { useProcessingStatus } from '@/hooks/use-processing-status';
+
+interface CollectionUsage {
+  position: number;
+  collections: { id: string; name: string } | null;
+}
+
+// Everything about one video on a single page: player, details, thumbnail and where it is used
+export default function VideoDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [video, setVideo] = useState<VideoFile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [usage, setUsage] = useState<CollectionUsage[]>([]);
+  const [embeds, setEmbeds] = useState<Embed[]>([]);
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null);
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [frameTime, setFrameTime] = useState(0);
+  const [savingFrame, setSavingFrame] = useState(false);
+  const [uploaderOpen, setUploaderOpen] = useState(false);
+
+  const fetchVideo = useCallback(async () => {
+    if (!id) return;
+    setLoading(true);
+    try {
+      const [videoResult, usageResult] = await Promise.all([
+        supabase.from('videos').select(VIDEO_SELECT).eq('id', id).maybeSingle(),
+        supabase.from('collection_videos').select('position, collections(id, name)').eq('video_id', id),
+      ]);
+
+      if (videoResult.error) throw videoResult.error;
+      if (usageResult.error) throw usageResult.error;
+
+      // Embeds that follow one of those collections show the video too
+      const collectionIds = (usageResult.data || []).map(entry => entry.collections?.id).filter(Boolean);
+      setEmbeds(await fetchEmbedsUsing(id, collectionIds));
+
+      setVideo(videoResult.data);
+      setUsage(usageResult.data || []);
+      if (videoResult.data) {
+        setFrameTime(videoResult.data.thumbnail_time ?? Math.min(1, videoResult.data.duration > 0 ? videoResult.data.duration : 0));
+      }
+    } catch (error) {
+      console.error('Failed to fetch video:', error);
+      toast.error('Failed to fetch video');
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchVideo();
+  }, [fetchVideo]);
+
+  // Private videos play through a token minted by the worker instead of their uid
+  const uid = video?.uid;
+  const signed = !!video?.require_signed_urls;
+  useEffect(() => {
+    if (!uid) return;
+
+    setPlaybackError(null);
+    if (!signed) {
+      setPlaybackUrl(buildStreamUrl(uid));
+      return;
+    }
+
+    let cancelled = false;
+    setPlaybackUrl(null);
+    getPlaybackToken(uid)
+      .then(({ token }) => !cancelled && setPlaybackUrl(buildStreamUrl(token)))
+      .catch((error) => {
+        console.error('Failed to get playback token:', error);
+        if (!cancelled) setPlaybackError(error instanceof Error ? error.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid, signed]);
+
+  const watched = useMemo(() => (video ? [video] : []), [video]);
+  useProcessingStatus(watched, (_uid, updates) => {
+    setVideo(prev => (prev ? { ...prev, ...updates } : prev));
+  });
+
+  const embedSnippet = useMemo(() => {
+    if (!video) return '';
+    const poster = hasCustomThumbnail(video)
+      ? video.thumbnail_url
+      : video.thumbnail_time != null ? buildFrameUrl(video.uid, video.thumbnail_time, 600) : null;
+    return buildEmbedSnippet(video, poster);
+  }, [video]);
+
+  const copyEmbedSnippet = async () => {
+    try {
+      if (await copyToClipboard(embedSnippet)) {
+        toast.success('Embed code copied to clipboard');
+      } else {
+        toast.error('Copy failed. Please try again');
+      }
+    } catch (error) {
+      console.error('Failed to copy:', error);
+      toast.error('Copy failed. Please try again');
+    }
+  };
+
+  const saveFrame = async () => {
+    if (!video) return;
+    const thumbnailTime = Number(frameTime.toFixed(3));
+
+    setSavingFrame(true);
+    try {
+      const { error } = await supabase.from('videos').update({ thumbnail_time: thumbnailTime }).eq('id', video.id);
+      if (error) throw error;
+
+      setVideo(prev => (prev ? { ...prev, thumbnail_time: thumbnailTime } : prev));
+      toast.success('Thumbnail frame set successfully!');
+    } catch (error) {
+      console.error('Failed to set thumbnail frame:', error);
+      toast.error(`Failed to set thumbnail frame: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSavingFrame(false);
+    }
+  };
+
+  const collections = usage
+    .filter((entry): entry is CollectionUsage & { collections: { id: string; name: string } } => !!entry.collections)
+    .sort((a, b) => a.collections.name.localeCompare(b.collections.name));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 via-amber-50 to-yellow-50">
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <Button asChild variant="ghost" className="text-orange-700">
+            <Link to="/">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Library
+            </Link>
+          </Button>
+          <Button onClick={fetchVideo} disabled={loading} variant="outline" size="sm">
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        {!video ? (
+          <p className="text-center text-orange-600 py-8">
+            {loading ? 'Loading video...' : 'This video does not exist.'}
+          </p>
+        ) : (
+          <>
+            <div className="space-y-1">
+              <h1 className="text-3xl font-bold text-orange-800 flex items-center gap-2">
+                {video.name}
+                {video.require_signed_urls && <Lock className="w-5 h-5 text-orange-700" aria-label="Private" />}
+              </h1>
+              {video.deleted_at && (
+                <p className="text-sm text-red-600">
+                  This video has been in the Trash since {new Date(video.deleted_at).toLocaleDateString()}.
+                </p>
+              )}
+            </div>
+
+            {/* Player */}
+            {playbackUrl ? (
+              <VideoContainer
+                urls={[playbackUrl]}
+                textTracks={[(video.video_captions || []).map(track => ({ srclang: track.language, label: track.label }))]}
+                title={video.name}
+              />
+            ) : (
+              <div className="aspect-video rounded-lg bg-black flex items-center justify-center text-white text-sm">
+                {playbackError ? `Could not get a playback token: ${playbackError}` : 'Loading player...'}
+              </div>
+            )}
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              {/* Details */}
+              <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+                <CardHeader>
+                  <CardTitle className="text-orange-800">Details</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <VideoMetadataEditor
+                    video={video}
+                    onSaved={(updates) => setVideo(prev => (prev ? { ...prev, ...updates } : prev))}
+                  />
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-orange-600/70">Alt text</dt>
+                    <dd className="text-orange-800">{videoAltText(video)}</dd>
+                    <dt className="text-orange-600/70">Hover preview</dt>
+                    <dd className="text-orange-800">
+                      {video.preview_start != null || video.preview_duration != null
+                        ? `${video.preview_start ?? 0}s for ${video.preview_duration ?? 'the default'}${video.preview_duration != null ? 's' : ''}`
+                        : 'Default'}
+                    </dd>
+                    <dt className="text-orange-600/70">Captions</dt>
+                    <dd className="text-orange-800">
+                      {video.video_captions?.length
+                        ? video.video_captions.map(track => track.label).join(', ')
+                        : 'None'}
+                    </dd>
+                    <dt className="text-orange-600/70">Playback</dt>
+                    <dd className="text-orange-800">{video.require_signed_urls ? 'Signed URLs required' : 'Public'}</dd>
+                    <dt className="text-orange-600/70">Added</dt>
+                    <dd className="text-orange-800">{video.created_at ? new Date(video.created_at).toLocaleString() : '—'}</dd>
+                    {video.clip_of && (
+                      <>
+                        <dt className="text-orange-600/70">Clip of</dt>
+                        <dd className="text-orange-800">
+                          <Link to={`/videos/${video.clip_of}`} className="underline">
+                            source video
+                          </Link>
+                          {` (${video.clip_start}s – ${video.clip_end}s)`}
+                        </dd>
+                      </>
+                    )}
+                  </dl>
+                </CardContent>
+              </Card>
+
+              {/* Processing */}
+              <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+                <CardHeader>
+                  <CardTitle className="text-orange-800">Processing</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                    <dt className="text-orange-600/70">Status</dt>
+                    <dd>
+                      {isProcessing(video) ? (
+                        <Badge variant="secondary" className="bg-amber-100 text-amber-700">
+                          processing{video.processing_progress != null && ` ${Math.round(video.processing_progress)}%`}
+                        </Badge>
+                      ) : video.status === 'error' ? (
+                        <Badge variant="destructive">error</Badge>
+                      ) : (
+                        <Badge variant="secondary">{video.status}</Badge>
+                      )}
+                    </dd>
+                    {video.error_reason && (
+                      <>
+                        <dt className="text-orange-600/70">Error</dt>
+                        <dd className="text-red-600">{video.error_reason}</dd>
+                      </>
+                    )}
+                    <dt className="text-orange-600/70">Duration</dt>
+                    <dd className="text-orange-800">{video.duration > 0 ? formatDuration(video.duration) : '—'}</dd>
+                    <dt className="text-orange-600/70">Dimensions</dt>
+                    <dd className="text-orange-800">{video.width && video.height ? `${video.width}×${video.height}` : '—'}</dd>
+                    <dt className="text-orange-600/70">Size</dt>
+                    <dd className="text-orange-800">{formatFileSize(video.size)}</dd>
+                    <dt className="text-orange-600/70">Stream ID</dt>
+                    <dd className="font-mono text-xs text-orange-800 break-all">{video.uid}</dd>
+                  </dl>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Thumbnail */}
+            <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-orange-800">
+                  <span>Thumbnail</span>
+                  <Button variant="outline" size="sm" onClick={() => setUploaderOpen(true)}>
+                    <ImagePlus className="w-4 h-4 mr-2" />
+                    {hasCustomThumbnail(video) ? 'Replace custom image' : 'Upload custom image'}
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="grid gap-6 md:grid-cols-[240px_1fr]">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Current:</label>
+                  <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
+                    {video.thumbnail_url && (
+                      <img src={displayThumbnailUrl(video)} alt={videoAltText(video)} className="w-full h-full object-cover" />
+                    )}
+                    {hasCustomThumbnail(video) && (
+                      <Badge className="absolute bottom-2 left-2 bg-black/60 text-white hover:bg-black/60">Custom</Badge>
+                    )}
+                  </div>
+                  {hasCustomThumbnail(video) && (
+                    <p className="text-xs text-orange-600/70">
+                      The custom image is shown instead of the chosen frame until it is removed.
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-3">
+                  <FrameScrubber video={video} time={frameTime} onTimeChange={setFrameTime} />
+                  {video.duration > 0 && (
+                    <div className="flex justify-end">
+                      <Button
+                        onClick={saveFrame}
+                        disabled={savingFrame}
+                        className="bg-orange-500 hover:bg-orange-600 text-white"
+                      >
+                        {savingFrame ? 'Saving...' : 'Use this frame'}
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Embed */}
+            <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between text-orange-800">
+                  <span>Embed</span>
+                  <Button variant="outline" size="sm" onClick={copyEmbedSnippet}>
+                    <Copy className="w-4 h-4 mr-2" />
+                    Copy
+                  </Button>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {video.require_signed_urls && (
+                  <p className="text-sm text-orange-700">
+                    This video requires signed URLs, so the snippet below only plays once the uid is replaced
+                    with a playback token. Use a generated carousel to handle tokens automatically.
+                  </p>
+                )}
+                <pre className="max-h-64 overflow-auto rounded-md bg-orange-50 p-3 text-xs text-orange-900 whitespace-pre-wrap break-all">
+                  {embedSnippet}
+                </pre>
+              </CardContent>
+            </Card>
+
+            {/* Usage */}
+            <Card className="border-2 border-orange-200/50 shadow-xl backdrop-blur-sm bg-white/90">
+              <CardHeader>
+                <CardTitle className="text-orange-800">Used in</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <h3 className="text-sm font-medium text-orange-800">Collections ({collections.length})</h3>
+                {collections.length === 0 ? (
+                  <p className="text-sm text-orange-600">This video is not in any collection.</p>
+                ) : (
+                  <ul className="flex flex-wrap gap-2">
+                    {collections.map(entry => (
+                      <li key={entry.collections.id}>
+                        <Badge variant="outline" title={`Position ${entry.position + 1}`}>
+                          {entry.collections.name}
+                        </Badge>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <h3 className="pt-2 text-sm font-medium text-orange-800">Embeds ({embeds.length})</h3>
+                {embeds.length === 0 ? (
+                  <p className="text-sm text-orange-600">No published embed shows this video.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {embeds.map(embed => (
+                      <li key={embed.id} className="flex items-center gap-2 text-sm text-orange-800">
+                        <span className="truncate">{embed.name}</span>
+                        <span className="text-xs text-orange-600/70">
+                          {getTemplate(embed.template_id).name}
+                          {embed.collection_id && ` · follows "${embed.collections?.name}"`}
+                        </span>
+                        <a href={embedPageUrl(embed)} target="_blank" rel="noreferrer" aria-label={`Open ${embed.name}`}>
+                          <ExternalLink className="w-3 h-3" />
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <ThumbnailUploader
+        video={uploaderOpen ? video : null}
+        onClose={() => setUploaderOpen(false)}
+        onSaved={(updates) => setVideo(prev => (prev ? { ...prev, ...updates } : prev))}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import type { VideoTemplate } from './types';
+import { STREAM_ALLOW, accentMix, playbackRuntime, preloadLinks } from './runtime';
+
+// Looping player with a caption bar, counter and keyboard navigation
+const enhancedPlayer: VideoTemplate = {
+  id: 'enhanced-player',
+  name: 'Enhanced player',
+  description: 'Looping player with title, description, counter and arrow-key navigation.',
+  customizable: ['accentColor', 'borderRadius', 'thumbnailSize', 'aspectRatio', 'blur', 'showArrows', 'hoverPreviews'],
+  defaults: { thumbnailSize: 96, aspectRatio: '16/9' },
+  render: (data) => {
+    const { accentColor, borderRadius: radius, thumbnailSize, aspectRatio, blur, showArrows } = data.options;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Enhanced Video Player</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        html, body { background: transparent; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #fff; }
+        .player { width: 100%; max-width: 960px; margin: 0 auto; border-radius: ${radius}px; overflow: hidden; background: #111; outline: none; }
+        .player:focus-visible { box-shadow: 0 0 0 3px ${accentMix(accentColor, 60)}; }
+        .video-wrapper { position: relative; width: 100%; aspect-ratio: ${aspectRatio}; background: #000; }
+        .stream-iframe { width: 100%; height: 100%; border: none; display: block; }
+        .nav { position: absolute; top: 50%; transform: translateY(-50%); width: 44px; height: 44px; border-radius: 50%; border: none; background: rgba(0, 0, 0, 0.45); backdrop-filter: blur(${blur}px); cursor: pointer; display: flex; align-items: center; justify-content: center; opacity: 0; transition: opacity 0.2s; }
+        .video-wrapper:hover .nav, .nav:focus-visible { opacity: 1; }
+        .nav.prev { left: 12px; }
+        .nav.next { right: 12px; }
+        .info { display: flex; align-items: flex-start; justify-content: space-between; gap: 16px; padding: 16px 20px 8px; }
+        .title { font-size: 18px; font-weight: 600; }
+        .description { margin-top: 4px; font-size: 14px; line-height: 1.5; color: rgba(255, 255, 255, 0.7); }
+        .counter { flex-shrink: 0; font-size: 13px; color: rgba(255, 255, 255, 0.6); font-variant-numeric: tabular-nums; }
+        .strip { display: flex; gap: 8px; overflow-x: auto; padding: 8px 20px 16px; scrollbar-width: none; }
+        .strip::-webkit-scrollbar { display: none; }
+        .thumb { flex-shrink: 0; width: ${thumbnailSize}px; aspect-ratio: 16/9; border-radius: 6px; overflow: hidden; border: 2px solid transparent; padding: 0; background: #222; cursor: pointer; opacity: 0.7; transition: opacity 0.2s, border-color 0.2s; }
+        .thumb:hover { opacity: 1; }
+        .thumb.active { opacity: 1; border-color: ${accentColor}; }
+        .thumb img { width: 100%; height: 100%; object-fit: cover; display: block; }
+        svg { width: 22px; height: 22px; stroke: white; fill: none; stroke-width: 2; }
+        @media (max-width: 480px) {
+            .info { padding: 12px 12px 4px; }
+            .strip { padding: 8px 12px 12px; }
+            .thumb { width: ${Math.round(thumbnailSize * 0.75)}px; }
+            .nav { opacity: 1; }
+        }
+    </style>
+    ${preloadLinks(data)}
+</head>
+<body>
+    <div class="player" id="player" tabindex="0" aria-label="Video player. Use the arrow keys to switch videos.">
+        <div class="video-wrapper">
+            <iframe id="streamPlayer" class="stream-iframe" allow="${STREAM_ALLOW}" allowfullscreen="true"></iframe>
+            ${showArrows ? `<button class="nav prev" id="prevBtn" aria-label="Previous video"><svg><polyline points="15 18 9 12 15 6"></polyline></svg></button>
+            <button class="nav next" id="nextBtn" aria-label="Next video"><svg><polyline points="9 18 15 12 9 6"></polyline></svg></button>` : ''}
+        </div>
+        <div class="info">
+            <div>
+                <h2 class="title" id="videoTitle"></h2>
+                <p class="description" id="videoDescription"></p>
+            </div>
+            <span class="counter" id="counter"></span>
+        </div>
+        <div class="strip" id="strip"></div>
+    </div>
+    <script>
+        ${playbackRuntime(data)}
+        var currentIndex = 0;
+        var streamPlayer = document.getElementById('streamPlayer');
+        var strip = document.getElementById('strip');
+
+        function createThumbnails() {
+            vids.forEach(function(vid, index) {
+                var button = document.createElement('button');
+                button.className = 'thumb';
+                button.title = vid.name;
+                button.onclick = function() { jumpToVideo(index); };
+
+                var img = document.createElement('img');
+                img.alt = vid.alt;
+                img.loading = 'lazy';
+                img.onerror = function() { img.style.display = 'none'; };
+                getPlaybackId(vid).then(function(playbackId) {
+                    img.src = thumbnailUrl(vid, playbackId, 120);
+                }).catch(function() {
+                    img.onerror();
+                });
+                button.appendChild(img);
+
+                if (vid.preview) {
+                    var stillSrc = null;
+                    button.onmouseenter = function() {
+                        stillSrc = img.src;
+                        img.src = vid.preview;
+                    };
+                    button.onmouseleave = function() {
+                        if (stillSrc) img.src = stillSrc;
+                    };
+                }
+                strip.appendChild(button);
+            });
+        }
+
+        function jumpToVideo(index) {
+            currentIndex = index;
+            var vid = vids[index];
+            streamPlayer.title = vid.name;
+            document.getElementById('videoTitle').textContent = vid.name;
+            document.getElementById('videoDescription').textContent = vid.description || '';
+            document.getElementById('counter').textContent = (index + 1) + ' / ' + vids.length;
+
+            getPlaybackId(vid).then(function(playbackId) {
+                if (currentIndex !== index) return; // User already moved on
+                streamPlayer.src = buildStreamUrl(vid, playbackId) + '&loop=true';
+            }).catch(function(error) {
+                console.error('Could not load video:', error);
+            });
+
+            strip.querySelectorAll('.thumb').forEach(function(thumb, i) {
+                thumb.classList.toggle('active', i === index);
+            });
+            var active = strip.children[index];
+            if (active) active.scrollIntoView({ behavior: 'smooth', block: 'nearest', inline: 'center' });
+        }
+
+        function nextVideo() {
+            jumpToVideo((currentIndex + 1) % vids.length);
+        }
+
+        function prevVideo() {
+            jumpToVideo((currentIndex - 1 + vids.length) % vids.length);
+        }
+
+        ${showArrows ? `document.getElementById('prevBtn').onclick = prevVideo;
+        document.getElementById('nextBtn').onclick = nextVideo;` : ''}
+        document.getElementById('player').addEventListener('keydown', function(event) {
+            if (event.key === 'ArrowRight') nextVideo();
+            else if (event.key === 'ArrowLeft') prevVideo();
+            else return;
+            event.preventDefault();
+        });
+
+        createThumbnails();
+        jumpToVideo(0);
+    </script>
+</body>
+</html>`;
+  },
+};
+
+export default enhancedPlayer;
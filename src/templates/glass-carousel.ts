@@ -0,0 +1,323 @@
+import type { VideoTemplate } from './types';
+import { STREAM_ALLOW, accentMix, playbackRuntime, preloadLinks } from './runtime';
+
+// Frosted-glass player with a scrolling thumbnail strip, the original generated carousel
+const glassCarousel: VideoTemplate = {
+  id: 'glass-carousel',
+  name: 'Glass carousel',
+  description: 'Player with a frosted thumbnail strip and previous/next buttons.',
+  customizable: ['accentColor', 'borderRadius', 'thumbnailSize', 'aspectRatio', 'blur', 'showArrows', 'hoverPreviews'],
+  render: (data) => {
+    const { accentColor, borderRadius: radius, thumbnailSize, aspectRatio, blur, showArrows } = data.options;
+    // Room left beside the strip for the arrow buttons
+    const arrowSpace = (space: number) => (showArrows ? `calc(100% - ${space}px)` : '100%');
+    const thumbnailCss = (width: number) => `width: ${Math.round(width)}px; height: ${Math.round(width * 0.7)}px;`;
+    // Stream frames at twice the strip's height, so they stay sharp on high-density screens
+    const frameHeight = Math.round(thumbnailSize * 0.7 * 2);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Glass Video Carousel</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body { background: transparent; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+        .carousel-container { width: 100%; max-width: 800px; margin: 0 auto; padding: 20px; }
+        .video-player-container { width: 100%; border-radius: ${radius}px; overflow: hidden; border: 1px solid rgba(255, 255, 255, 0.1); display: flex; flex-direction: column; }
+        .video-wrapper { position: relative; width: 100%; aspect-ratio: ${aspectRatio}; border-radius: ${radius}px ${radius}px 0 0; overflow: hidden; background: #000; }
+        .stream-iframe { width: 100%; height: 100%; border: none; cursor: pointer; }
+        .controls-panel { backdrop-filter: blur(${blur}px); background: rgba(0, 0, 0, 0.3); border-radius: 0 0 ${radius}px ${radius}px; padding: 16px 20px; display: flex; align-items: center; }
+        .controls-inner { 
+            display: flex; 
+            align-items: center; 
+            justify-content: space-between; 
+            gap: 16px; 
+            width: 100%; 
+            padding: 0 20px; 
+        }
+        .thumbnail-carousel { 
+            display: flex; 
+            align-items: center; 
+            gap: 8px; 
+            overflow-x: auto; 
+            overflow-y: hidden;
+            flex: 1; 
+            justify-content: flex-start; 
+            scrollbar-width: none;
+            -ms-overflow-style: none;
+            max-width: ${arrowSpace(100)};
+            scroll-behavior: smooth;
+        }
+        .thumbnail-carousel::-webkit-scrollbar { display: none; }
+        .thumbnail-item { 
+            flex-shrink: 0; 
+            ${thumbnailCss(thumbnailSize)}
+            border-radius: 6px; 
+            overflow: hidden; 
+            cursor: pointer; 
+            transition: border-color 0.2s ease; 
+            border: 2px solid transparent; 
+        }
+        .thumbnail-item:hover { 
+            border-color: ${accentMix(accentColor, 40)}; 
+        }
+        .thumbnail-item.active { 
+            border-color: ${accentMix(accentColor, 90)}; 
+            box-shadow: 0 0 8px ${accentMix(accentColor, 20)}; 
+        }
+        .thumbnail-img { width: 100%; height: 100%; object-fit: cover; background: rgba(0, 0, 0, 0.3); }
+        .btn { backdrop-filter: blur(${blur}px); background: rgba(0, 0, 0, 0.3); border: 1px solid rgba(255, 255, 255, 0.15); border-radius: 10px; cursor: pointer; display: flex; align-items: center; justify-content: center; transition: all 0.2s; width: 36px; height: 36px; }
+        .btn:hover { background: rgba(0, 0, 0, 0.45); transform: scale(1.05); }
+        svg { width: 22px; height: 22px; stroke: white; fill: none; stroke-width: 2; }
+        
+        /* Responsive design */
+        @media (max-width: 768px) {
+            .carousel-container { padding: 10px; }
+            .controls-panel { padding: 12px 16px; }
+            .controls-inner { padding: 0 16px; gap: 12px; }
+            .thumbnail-carousel { max-width: ${arrowSpace(80)}; }
+            .thumbnail-item { ${thumbnailCss(thumbnailSize * 5 / 6)} }
+        }
+        
+        @media (max-width: 480px) {
+            .carousel-container { padding: 8px; }
+            .controls-panel { padding: 10px 12px; }
+            .controls-inner { padding: 0 12px; gap: 8px; }
+            .thumbnail-carousel { max-width: ${arrowSpace(70)}; }
+            .thumbnail-item { ${thumbnailCss(thumbnailSize * 0.75)} }
+        }
+    </style>
+    <!-- Preload video streams for faster navigation -->
+    ${preloadLinks(data)}
+</head>
+<body>
+    <div class="carousel-container">
+        <div class="video-player-container">
+            <div class="video-wrapper">
+                <iframe id="streamPlayer" class="stream-iframe" loading="lazy" allow="${STREAM_ALLOW}" allowfullscreen="true"></iframe>
+            </div>
+            <div class="controls-panel">
+                <div class="controls-inner">
+                    ${showArrows ? '<button class="btn" id="prevBtn" aria-label="Previous video"><svg><polyline points="15 18 9 12 15 6"></polyline></svg></button>' : ''}
+                    <div class="thumbnail-carousel" id="thumbnailCarousel"></div>
+                    ${showArrows ? '<button class="btn" id="nextBtn" aria-label="Next video"><svg><polyline points="9 18 15 12 9 6"></polyline></svg></button>' : ''}
+                </div>
+            </div>
+        </div>
+    </div>
+    <script>
+        ${playbackRuntime(data)}
+        var currentIndex = 0;
+        var streamPlayer = document.getElementById('streamPlayer');
+        var thumbnailCarousel = document.getElementById('thumbnailCarousel');
+        
+        function createThumbnails() {
+            thumbnailCarousel.innerHTML = '';
+            vids.forEach(function(vid, index) {
+                var div = document.createElement('div');
+                div.className = 'thumbnail-item' + (index === currentIndex ? ' active' : '');
+                div.title = vid.name;
+                div.onclick = function() { jumpToVideo(index); };
+                
+                // Create thumbnail image directly
+                var img = document.createElement('img');
+                img.className = 'thumbnail-img';
+                img.alt = vid.alt;
+                img.loading = 'lazy';
+                img.onerror = function() {
+                    // Try alternative thumbnail URL
+                    if (vid.signed) {
+                        img.onerror = null;
+                        img.style.display = 'none';
+                        return;
+                    }
+                    // The frame as a PNG, also standing in for a poster that failed to load
+                    var altUrl = thumbnailUrl({ thumbnailTime: vid.thumbnailTime }, vid.streamId, ${frameHeight}).replace('thumbnail.jpg', 'thumbnail.png');
+                    img.src = altUrl;
+                    img.onerror = function() {
+                        // Show fallback icon
+                        img.style.display = 'none';
+                        var fallback = document.createElement('div');
+                        fallback.className = 'thumbnail-fallback';
+                        fallback.textContent = '📹';
+                        fallback.style.cssText = 'width: 100%; height: 100%; display: flex; align-items: center; justify-content: center; background: rgba(0,0,0,0.5); color: white; font-size: 16px;';
+                        div.appendChild(fallback);
+                    };
+                };
+                if (vid.poster) {
+                    // Uploaded posters are public images, even for private videos
+                    img.src = vid.poster;
+                } else {
+                    getPlaybackId(vid).then(function(playbackId) {
+                        img.src = thumbnailUrl(vid, playbackId, ${frameHeight});
+                    }).catch(function() {
+                        img.onerror();
+                    });
+                }
+                div.appendChild(img);
+                
+                if (vid.preview) {
+                    // Swap in the animated preview while hovered, once it has loaded
+                    var stillSrc = null;
+                    var previewReady = false;
+                    var showPreview = function() {
+                        stillSrc = img.src;
+                        img.src = vid.preview;
+                    };
+                    div.onmouseenter = function() {
+                        if (previewReady) return showPreview();
+                        var loader = new Image();
+                        loader.onload = function() {
+                            previewReady = true;
+                            if (div.matches(':hover')) showPreview();
+                        };
+                        loader.src = vid.preview;
+                    };
+                    div.onmouseleave = function() {
+                        if (stillSrc) img.src = stillSrc;
+                        stillSrc = null;
+                    };
+                }
+                thumbnailCarousel.appendChild(div);
+            });
+        }
+        
+        // Preload videos for smooth navigation
+        function preloadVideos() {
+            vids.forEach(function(vid, index) {
+                if (index === currentIndex) return; // Skip current video
+                if (vid.signed) return; // Private videos are loaded on demand with a fresh token
+                
+                // Create hidden iframe to preload video
+                var preloadIframe = document.createElement('iframe');
+                preloadIframe.style.display = 'none';
+                preloadIframe.style.width = '1px';
+                preloadIframe.style.height = '1px';
+                preloadIframe.src = buildStreamUrl(vid, vid.streamId) + '&autoplay=false&controls=false';
+                preloadIframe.allow = 'accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;';
+                
+                // Add to body temporarily
+                document.body.appendChild(preloadIframe);
+                
+                // Remove after a short delay to avoid memory issues
+                setTimeout(function() {
+                    if (preloadIframe.parentNode) {
+                        preloadIframe.parentNode.removeChild(preloadIframe);
+                    }
+                }, 3000);
+            });
+        }
+        
+        // Preload adjacent videos for instant navigation
+        function preloadAdjacentVideos() {
+            var prevIndex = (currentIndex - 1 + vids.length) % vids.length;
+            var nextIndex = (currentIndex + 1) % vids.length;
+            
+            // Preload previous video
+            if (prevIndex !== currentIndex && !vids[prevIndex].signed) {
+                var prevIframe = document.createElement('iframe');
+                prevIframe.style.display = 'none';
+                prevIframe.style.width = '1px';
+                prevIframe.style.height = '1px';
+                prevIframe.src = buildStreamUrl(vids[prevIndex], vids[prevIndex].streamId) + '&autoplay=false&controls=false';
+                prevIframe.allow = 'accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;';
+                document.body.appendChild(prevIframe);
+                
+                setTimeout(function() {
+                    if (prevIframe.parentNode) {
+                        prevIframe.parentNode.removeChild(prevIframe);
+                    }
+                }, 2000);
+            }
+            
+            // Preload next video
+            if (nextIndex !== currentIndex && !vids[nextIndex].signed) {
+                var nextIframe = document.createElement('iframe');
+                nextIframe.style.display = 'none';
+                nextIframe.style.width = '1px';
+                nextIframe.style.height = '1px';
+                nextIframe.src = buildStreamUrl(vids[nextIndex], vids[nextIndex].streamId) + '&autoplay=false&controls=false';
+                nextIframe.allow = 'accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;';
+                document.body.appendChild(nextIframe);
+                
+                setTimeout(function() {
+                    if (nextIframe.parentNode) {
+                        nextIframe.parentNode.removeChild(nextIframe);
+                    }
+                }, 2000);
+            }
+        }
+        
+        function jumpToVideo(index) {
+            currentIndex = index;
+            var currentVideo = vids[index];
+            streamPlayer.title = currentVideo.name;
+            
+            // Use Cloudflare Stream's native poster system with time-based thumbnails
+            getPlaybackId(currentVideo).then(function(playbackId) {
+                if (currentIndex !== index) return; // User already moved on
+                streamPlayer.src = buildStreamUrl(currentVideo, playbackId);
+            }).catch(function(error) {
+                console.error('Could not load video:', error);
+            });
+            
+            updateThumbnails();
+            
+            // Preload adjacent videos for smooth navigation
+            setTimeout(function() {
+                preloadAdjacentVideos();
+            }, 500);
+        }
+        
+        function updateThumbnails() {
+            var thumbnails = thumbnailCarousel.querySelectorAll('.thumbnail-item');
+            thumbnails.forEach(function(thumb, i) {
+                thumb.className = 'thumbnail-item' + (i === currentIndex ? ' active' : '');
+            });
+            
+            // Auto-scroll to keep active thumbnail in view
+            var activeThumbnail = thumbnailCarousel.querySelector('.thumbnail-item.active');
+            if (activeThumbnail) {
+                var carouselRect = thumbnailCarousel.getBoundingClientRect();
+                var thumbnailRect = activeThumbnail.getBoundingClientRect();
+                var scrollLeft = thumbnailCarousel.scrollLeft;
+                
+                // Check if thumbnail is outside left edge
+                if (thumbnailRect.left < carouselRect.left) {
+                    thumbnailCarousel.scrollLeft = scrollLeft - (carouselRect.left - thumbnailRect.left) - 20;
+                }
+                // Check if thumbnail is outside right edge
+                else if (thumbnailRect.right > carouselRect.right) {
+                    thumbnailCarousel.scrollLeft = scrollLeft + (thumbnailRect.right - carouselRect.right) + 20;
+                }
+            }
+        }
+        
+        function nextVideo() {
+            jumpToVideo((currentIndex + 1) % vids.length);
+        }
+        
+        function prevVideo() {
+            jumpToVideo((currentIndex - 1 + vids.length) % vids.length);
+        }
+        
+        ${showArrows ? `document.getElementById('prevBtn').onclick = prevVideo;
+        document.getElementById('nextBtn').onclick = nextVideo;` : ''}
+        
+        
+        createThumbnails();
+        jumpToVideo(0);
+        
+        // Preload all videos for smooth navigation
+        setTimeout(function() {
+            preloadVideos();
+        }, 1000); // Wait 1 second after initial load
+    </script>
+</body>
+</html>`;
+  },
+};
+
+export default glassCarousel;
@@ -0,0 +1,92 @@
+import type { VideoTemplate } from './types';
+import { STREAM_ALLOW, accentMix, escapeHtml, playbackRuntime } from './runtime';
+
+// Poster grid; a card turns into the player when clicked, so nothing loads up front
+const grid: VideoTemplate = {
+  id: 'grid',
+  name: 'Grid',
+  description: 'Responsive grid of posters that play in place when clicked.',
+  customizable: ['accentColor', 'borderRadius', 'thumbnailSize', 'aspectRatio', 'hoverPreviews'],
+  // Thumbnail size is the narrowest a column may get
+  defaults: { accentColor: '#f97316', borderRadius: 12, thumbnailSize: 260, aspectRatio: '16/9' },
+  render: (data) => {
+    const { accentColor, borderRadius: radius, thumbnailSize, aspectRatio } = data.options;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Video Grid</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        html, body { background: transparent; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+        .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(min(${thumbnailSize}px, 100%), 1fr)); gap: 16px; padding: 16px; }
+        .card { border-radius: ${radius}px; overflow: hidden; background: #111; }
+        .media { position: relative; width: 100%; aspect-ratio: ${aspectRatio}; background: #000; }
+        .poster { width: 100%; height: 100%; padding: 0; border: none; background: #000; cursor: pointer; display: block; position: relative; }
+        .poster img { width: 100%; height: 100%; object-fit: cover; display: block; }
+        .play { position: absolute; inset: 0; margin: auto; width: 56px; height: 56px; border-radius: 50%; background: rgba(0, 0, 0, 0.55); display: flex; align-items: center; justify-content: center; transition: transform 0.2s; }
+        .poster:hover .play, .poster:focus-visible .play { transform: scale(1.1); background: ${accentMix(accentColor, 80)}; }
+        .poster:focus-visible { outline: 3px solid ${accentColor}; outline-offset: -3px; }
+        .play svg { width: 24px; height: 24px; fill: white; margin-left: 4px; }
+        .media iframe { width: 100%; height: 100%; border: none; display: block; }
+        .caption { padding: 10px 12px; color: #fff; font-size: 14px; font-weight: 500; }
+    </style>
+</head>
+<body>
+    <div class="grid" id="grid">
+${data.videos.map((video, index) => `        <div class="card">
+            <div class="media" data-index="${index}">
+                <button class="poster" aria-label="Play ${escapeHtml(video.name)}">
+                    <img alt="${escapeHtml(video.alt)}" loading="lazy">
+                    <span class="play"><svg viewBox="0 0 24 24"><polygon points="6 4 20 12 6 20"></polygon></svg></span>
+                </button>
+            </div>
+            <div class="caption">${escapeHtml(video.name)}</div>
+        </div>`).join('\n')}
+    </div>
+    <script>
+        ${playbackRuntime(data)}
+
+        document.querySelectorAll('.media').forEach(function(media) {
+            var vid = vids[Number(media.getAttribute('data-index'))];
+            var img = media.querySelector('img');
+            img.onerror = function() { img.style.display = 'none'; };
+            getPlaybackId(vid).then(function(playbackId) {
+                img.src = thumbnailUrl(vid, playbackId, 360);
+            }).catch(function() {
+                img.onerror();
+            });
+
+            if (vid.preview) {
+                var stillSrc = null;
+                media.onmouseenter = function() {
+                    stillSrc = img.src;
+                    img.src = vid.preview;
+                };
+                media.onmouseleave = function() {
+                    if (stillSrc) img.src = stillSrc;
+                };
+            }
+
+            media.querySelector('.poster').onclick = function() {
+                getPlaybackId(vid).then(function(playbackId) {
+                    var iframe = document.createElement('iframe');
+                    iframe.title = vid.name;
+                    iframe.allow = '${STREAM_ALLOW}';
+                    iframe.allowFullscreen = true;
+                    iframe.src = buildStreamUrl(vid, playbackId) + '&autoplay=true';
+                    media.replaceChildren(iframe);
+                }).catch(function(error) {
+                    console.error('Could not load video:', error);
+                });
+            };
+        });
+    </script>
+</body>
+</html>`;
+  },
+};
+
+export default grid;
@@ -0,0 +1,22 @@
+import type { VideoTemplate } from './types';
+import glassCarousel from './glass-carousel';
+import enhancedPlayer from './enhanced-player';
+import grid from './grid';
+import minimal from './minimal';
+import { withDefaultOptions } from './options';
+
+export type { TemplateData, TemplateVideo, VideoTemplate } from './types';
+export { streamPlayerUrl, toTemplateVideo, type TemplateVideoRow } from './videos';
+export { STREAM_ALLOW, escapeHtml } from './runtime';
+export { ASPECT_RATIOS, DEFAULT_TEMPLATE_OPTIONS, withDefaultOptions, type TemplateOptions } from './options';
+
+// Every template offered in the gallery, in display order. Register new templates here.
+export const TEMPLATES: VideoTemplate[] = [glassCarousel, enhancedPlayer, grid, minimal];
+
+export const DEFAULT_TEMPLATE_ID = glassCarousel.id;
+
+export const getTemplate = (id: string) =>
+  TEMPLATES.find(template => template.id === id) || glassCarousel;
+
+// Options a template starts with before it is customized
+export const templateDefaults = (template: VideoTemplate) => withDefaultOptions(template.defaults);
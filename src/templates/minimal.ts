@@ -0,0 +1,73 @@
+import type { VideoTemplate } from './types';
+import { STREAM_ALLOW, playbackRuntime } from './runtime';
+
+// Bare player for pages that bring their own styling
+const minimal: VideoTemplate = {
+  id: 'minimal',
+  name: 'Minimal',
+  description: 'Just the player with plain previous/next links and no thumbnails.',
+  customizable: ['borderRadius', 'aspectRatio', 'showArrows'],
+  defaults: { borderRadius: 0, aspectRatio: '16/9' },
+  render: (data) => {
+    const { borderRadius: radius, aspectRatio, showArrows } = data.options;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Video Player</title>
+    <style>
+        body { margin: 0; background: transparent; font-family: inherit; }
+        .video-wrapper { position: relative; width: 100%; aspect-ratio: ${aspectRatio}; border-radius: ${radius}px; overflow: hidden; background: #000; }
+        .video-wrapper iframe { position: absolute; inset: 0; width: 100%; height: 100%; border: none; }
+        nav { display: flex; align-items: center; justify-content: space-between; gap: 8px; padding: 8px 0; font-size: 14px; }
+        nav button { border: none; background: none; padding: 0; font: inherit; color: inherit; text-decoration: underline; cursor: pointer; }
+        nav button[hidden] { visibility: hidden; }
+    </style>
+</head>
+<body>
+    <div class="video-wrapper">
+        <iframe id="streamPlayer" allow="${STREAM_ALLOW}" allowfullscreen="true"></iframe>
+    </div>
+    <nav id="nav">
+        ${showArrows ? '<button id="prevBtn">&larr; Previous</button>' : ''}
+        <span id="videoTitle"></span>
+        ${showArrows ? '<button id="nextBtn">Next &rarr;</button>' : ''}
+    </nav>
+    <script>
+        ${playbackRuntime(data)}
+        var currentIndex = 0;
+        var streamPlayer = document.getElementById('streamPlayer');
+
+        function jumpToVideo(index) {
+            currentIndex = index;
+            var vid = vids[index];
+            streamPlayer.title = vid.name;
+            document.getElementById('videoTitle').textContent = vid.name;
+            getPlaybackId(vid).then(function(playbackId) {
+                if (currentIndex !== index) return; // User already moved on
+                streamPlayer.src = buildStreamUrl(vid, playbackId);
+            }).catch(function(error) {
+                console.error('Could not load video:', error);
+            });
+        }
+
+        ${showArrows ? `document.getElementById('prevBtn').onclick = function() {
+            jumpToVideo((currentIndex - 1 + vids.length) % vids.length);
+        };
+        document.getElementById('nextBtn').onclick = function() {
+            jumpToVideo((currentIndex + 1) % vids.length);
+        };
+        // A single video needs no navigation
+        document.getElementById('prevBtn').hidden = vids.length < 2;
+        document.getElementById('nextBtn').hidden = vids.length < 2;` : ''}
+
+        jumpToVideo(0);
+    </script>
+</body>
+</html>`;
+  },
+};
+
+export default minimal;
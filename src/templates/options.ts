@@ -0,0 +1,56 @@
+// Look-and-feel settings shared by every template. A template only reads
+// the ones it lists in `VideoTemplate.customizable`.
+export interface TemplateOptions {
+  // CSS colour for active thumbnails, focus rings and buttons
+  accentColor: string;
+  // Corner radius of the player, in px
+  borderRadius: number;
+  // Thumbnail width, in px
+  thumbnailSize: number;
+  // CSS aspect-ratio of the player, e.g. "16/9"
+  aspectRatio: string;
+  // Backdrop blur behind the controls, in px
+  blur: number;
+  showArrows: boolean;
+  // Play each video's animated preview while its thumbnail is hovered
+  hoverPreviews: boolean;
+}
+
+export const DEFAULT_TEMPLATE_OPTIONS: TemplateOptions = {
+  accentColor: '#ffffff',
+  borderRadius: 16,
+  thumbnailSize: 60,
+  aspectRatio: '1920/1398',
+  blur: 8,
+  showArrows: true,
+  hoverPreviews: false,
+};
+
+export const ASPECT_RATIOS = [
+  { value: '1920/1398', label: 'Carousel (1920:1398)' },
+  { value: '16/9', label: 'Widescreen (16:9)' },
+  { value: '4/3', label: 'Standard (4:3)' },
+  { value: '1/1', label: 'Square (1:1)' },
+  { value: '9/16', label: 'Vertical (9:16)' },
+];
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : fallback;
+
+/**
+ * Fill in missing options from the defaults and drop invalid ones. Options
+ * end up inside generated CSS, so anything stored or typed in is checked
+ * field by field rather than trusted.
+ */
+export const withDefaultOptions = (options: Partial<TemplateOptions> = {}): TemplateOptions => {
+  const defaults = DEFAULT_TEMPLATE_OPTIONS;
+  return {
+    accentColor: /^#[0-9a-f]{3,8}$/i.test(options.accentColor ?? '') ? options.accentColor : defaults.accentColor,
+    borderRadius: clamp(options.borderRadius, 0, 48, defaults.borderRadius),
+    thumbnailSize: clamp(options.thumbnailSize, 40, 320, defaults.thumbnailSize),
+    aspectRatio: /^\d+(\.\d+)?\/\d+(\.\d+)?$/.test(options.aspectRatio ?? '') ? options.aspectRatio : defaults.aspectRatio,
+    blur: clamp(options.blur, 0, 40, defaults.blur),
+    showArrows: typeof options.showArrows === 'boolean' ? options.showArrows : defaults.showArrows,
+    hoverPreviews: typeof options.hoverPreviews === 'boolean' ? options.hoverPreviews : defaults.hoverPreviews,
+  };
+};
@@ -0,0 +1,67 @@
+import type { TemplateData, TemplateVideo } from './types';
+import { streamPlayerUrl, streamThumbnailUrl } from './videos';
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// JSON for an inline <script>; escaping "<" keeps a video name from closing the tag
+export const serializeVideos = (videos: TemplateVideo[]) =>
+  JSON.stringify(videos).replace(/</g, '\\u003c');
+
+// The accent colour at a given opacity, for borders and glows
+export const accentMix = (color: string, percent: number) =>
+  `color-mix(in srgb, ${color} ${percent}%, transparent)`;
+
+// Iframe permissions the Stream player asks for
+export const STREAM_ALLOW = 'accelerometer; gyroscope; autoplay; encrypted-media; picture-in-picture;';
+
+// Preload hints for the public videos, for the same URLs the player loads; private ones need a fresh token first
+export const preloadLinks = (data: TemplateData) =>
+  data.videos
+    .filter(video => !video.signed)
+    .map(video => `<link rel="preload" href="${escapeHtml(streamPlayerUrl(data.streamDomain, video, video.streamId))}" as="document">`)
+    .join('');
+
+/**
+ * Script shared by every template: the video list, Stream URL builders and
+ * playback-token fetching for private videos. Defines `vids`,
+ * `buildStreamUrl`, `getPlaybackId` and `thumbnailUrl`. The URL builders are
+ * the ones in videos.ts, inlined, so the pages and the app build the same URLs.
+ */
+export const playbackRuntime = (data: TemplateData) => `var vids = ${serializeVideos(
+  data.options.hoverPreviews ? data.videos : data.videos.map(video => ({ ...video, preview: null })),
+)};
+        var streamDomain = "${data.streamDomain}";
+        var tokenEndpoint = "${data.tokenEndpoint}";
+        var tokenCache = ${JSON.stringify(data.playbackTokens || {})};
+
+        var streamPlayerUrl = ${streamPlayerUrl.toString()};
+        var streamThumbnailUrl = ${streamThumbnailUrl.toString()};
+
+        function buildStreamUrl(vid, playbackId) {
+            return streamPlayerUrl(streamDomain, vid, playbackId);
+        }
+
+        // Private videos play through a short-lived token that replaces the uid in every URL
+        function getPlaybackId(vid) {
+            if (!vid.signed) return Promise.resolve(vid.streamId);
+            var cached = tokenCache[vid.streamId];
+            if (cached && cached.expiresAt - Date.now() > 60000) return Promise.resolve(cached.token);
+            return fetch(tokenEndpoint + vid.streamId)
+                .then(function(response) {
+                    if (!response.ok) throw new Error('Playback token request failed');
+                    return response.json();
+                })
+                .then(function(data) {
+                    tokenCache[vid.streamId] = data;
+                    return data.token;
+                });
+        }
+
+        function thumbnailUrl(vid, playbackId, height) {
+            return streamThumbnailUrl(streamDomain, vid, playbackId, height);
+        }`;
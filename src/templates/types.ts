@@ -0,0 +1,45 @@
+import type { TemplateOptions } from './options';
+
+// Templates are plain string builders with no app imports, so they can be
+// bundled into the worker as well as the admin.
+
+// One video as generated markup sees it
+export interface TemplateVideo {
+  streamId: string;
+  name: string;
+  description: string | null;
+  // Alt text for thumbnails
+  alt: string;
+  // Seconds into the video used for the poster frame
+  thumbnailTime: number | null;
+  // Uploaded poster image, which wins over the frame
+  poster: string | null;
+  // Animated thumbnail shown on hover when hover previews are on
+  preview: string | null;
+  // Caption languages; the first is shown by default
+  captions: string[];
+  // Private videos need a playback token
+  signed: boolean;
+}
+
+export interface TemplateData {
+  videos: TemplateVideo[];
+  // customer-<code>.cloudflarestream.com
+  streamDomain: string;
+  // Prefix that a uid is appended to when fetching a playback token
+  tokenEndpoint: string;
+  options: TemplateOptions;
+  // Tokens fetched ahead by uid, for pages that cannot request their own (the admin preview)
+  playbackTokens?: Record<string, { token: string; expiresAt: number }>;
+}
+
+export interface VideoTemplate {
+  id: string;
+  name: string;
+  description: string;
+  // The options this template reads; the customizer hides the rest
+  customizable: (keyof TemplateOptions)[];
+  // Where this template's starting look differs from the shared defaults
+  defaults?: Partial<TemplateOptions>;
+  render: (data: TemplateData) => string;
+}
@@ -0,0 +1,95 @@
+import type { TemplateVideo } from './types';
+
+// The columns of a videos row that generated markup is built from
+export interface TemplateVideoRow {
+  uid: string;
+  name: string;
+  description: string | null;
+  alt_text: string | null;
+  duration: number | null;
+  thumbnail_time: number | null;
+  thumbnail_url: string | null;
+  thumbnail_path: string | null;
+  preview_start: number | null;
+  preview_duration: number | null;
+  require_signed_urls: boolean;
+  video_captions?: { language: string }[];
+}
+
+export const DEFAULT_PREVIEW_DURATION = 4;
+// Stream caps animated thumbnails at 15 seconds
+export const MAX_PREVIEW_DURATION = 15;
+
+// The preview window, kept inside the video
+export const previewWindow = (video: Pick<TemplateVideoRow, 'duration' | 'preview_start' | 'preview_duration'>) => {
+  const length = video.duration > 0 ? video.duration : Infinity;
+  const duration = Math.min(video.preview_duration ?? DEFAULT_PREVIEW_DURATION, MAX_PREVIEW_DURATION, length);
+  const start = Math.min(Math.max(video.preview_start ?? 0, 0), Math.max(length - duration, 0));
+  return { start, duration };
+};
+
+/**
+ * Stream's animated thumbnail for a video. Private videos have none without a
+ * playback token, and nor does anything still processing.
+ */
+export const previewAnimationUrl = (
+  streamDomain: string,
+  video: Pick<TemplateVideoRow, 'uid' | 'duration' | 'preview_start' | 'preview_duration' | 'require_signed_urls'>,
+  height: number,
+  format: 'gif' | 'webp' = 'gif',
+) => {
+  if (video.require_signed_urls || !(video.duration > 0)) return null;
+  const { start, duration } = previewWindow(video);
+  return `https://${streamDomain}/${video.uid}/thumbnails/thumbnail.${format}?time=${start}s&duration=${duration}s&height=${height}`;
+};
+
+// Shared by the admin's copied HTML and the worker's hosted embeds
+export const toTemplateVideo = (video: TemplateVideoRow, streamDomain: string): TemplateVideo => ({
+  streamId: video.uid,
+  name: video.name,
+  description: video.description,
+  alt: video.alt_text?.trim() || video.name,
+  thumbnailTime: video.thumbnail_time,
+  // Uploaded poster wins over the frame
+  poster: video.thumbnail_path ? video.thumbnail_url : null,
+  preview: previewAnimationUrl(streamDomain, video, 84),
+  captions: (video.video_captions || []).map(track => track.language),
+  signed: !!video.require_signed_urls,
+});
+
+/*
+ * The Stream URL builders below also run inside every template page:
+ * playbackRuntime inlines their source, so each must stay self-contained,
+ * referring only to its own parameters and browser globals.
+ */
+
+// The Stream player for a video, with its first caption track and its uploaded poster or chosen frame
+export const streamPlayerUrl = (
+  streamDomain: string,
+  video: Pick<TemplateVideo, 'thumbnailTime' | 'poster' | 'captions'>,
+  playbackId: string,
+) => {
+  let url = `https://${streamDomain}/${playbackId}/iframe?preload=true`;
+  if (video.captions && video.captions.length > 0) {
+    url += `&defaultTextTrack=${video.captions[0]}`;
+  }
+  if (video.poster) {
+    url += `&poster=${encodeURIComponent(video.poster)}`;
+  } else if (video.thumbnailTime !== null && video.thumbnailTime !== undefined) {
+    const frame = `https://${streamDomain}/${playbackId}/thumbnails/thumbnail.jpg?time=${video.thumbnailTime}s&height=600`;
+    url += `&poster=${encodeURIComponent(frame)}`;
+  }
+  return url;
+};
+
+// Uploaded poster first, then the chosen frame, then the first frame
+export const streamThumbnailUrl = (
+  streamDomain: string,
+  video: Pick<TemplateVideo, 'thumbnailTime' | 'poster'>,
+  playbackId: string,
+  height: number,
+) => {
+  if (video.poster) return video.poster;
+  const time = video.thumbnailTime !== null && video.thumbnailTime !== undefined ? `${video.thumbnailTime}s` : '0';
+  return `https://${streamDomain}/${playbackId}/thumbnails/thumbnail.jpg?time=${time}&height=${height}`;
+};
@@ -0,0 +1,9 @@
+-- Track Cloudflare Stream processing state on each video
+ALTER TABLE public.videos
+  ADD COLUMN width INTEGER,
+  ADD COLUMN height INTEGER,
+  ADD COLUMN processing_progress NUMERIC,
+  ADD COLUMN error_reason TEXT;
+
+-- Speed up polling for videos that are still being processed
+CREATE INDEX idx_videos_status ON public.videos(status);
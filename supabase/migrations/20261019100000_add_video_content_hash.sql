@@ -0,0 +1,4 @@
+-- SHA-256 of the whole uploaded file, used to flag duplicate uploads
+ALTER TABLE public.videos ADD COLUMN content_hash TEXT;
+
+CREATE INDEX idx_videos_content_hash ON public.videos(content_hash);
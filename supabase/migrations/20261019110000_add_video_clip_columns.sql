@@ -0,0 +1,7 @@
+-- Clips created from another library video through Stream's clip API
+ALTER TABLE public.videos
+  ADD COLUMN clip_of UUID REFERENCES public.videos(id) ON DELETE SET NULL,
+  ADD COLUMN clip_start NUMERIC,
+  ADD COLUMN clip_end NUMERIC;
+
+CREATE INDEX idx_videos_clip_of ON public.videos(clip_of);
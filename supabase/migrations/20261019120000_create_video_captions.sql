@@ -0,0 +1,38 @@
+-- Caption and subtitle tracks uploaded to Cloudflare Stream, one per video and language
+CREATE TABLE public.video_captions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  language TEXT NOT NULL,
+  label TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (video_id, language)
+);
+
+ALTER TABLE public.video_captions ENABLE ROW LEVEL SECURITY;
+
+-- Same access model as the videos table
+CREATE POLICY "Anyone can view video captions"
+ON public.video_captions
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can insert video captions"
+ON public.video_captions
+FOR INSERT
+TO public
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can update video captions"
+ON public.video_captions
+FOR UPDATE
+TO public
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can delete video captions"
+ON public.video_captions
+FOR DELETE
+TO public
+USING (true);
+
+CREATE INDEX idx_video_captions_video_id ON public.video_captions(video_id);
@@ -0,0 +1,2 @@
+-- Private videos are only playable with a short-lived token from the worker
+ALTER TABLE public.videos ADD COLUMN require_signed_urls BOOLEAN NOT NULL DEFAULT false;
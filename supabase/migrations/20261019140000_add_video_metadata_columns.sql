@@ -0,0 +1,7 @@
+-- Curated metadata for library videos and generated embeds
+ALTER TABLE public.videos
+  ADD COLUMN description TEXT,
+  ADD COLUMN tags TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN alt_text TEXT;
+
+CREATE INDEX idx_videos_tags ON public.videos USING GIN (tags);
@@ -0,0 +1,83 @@
+-- Named, ordered sets of videos, each generating its own carousel
+CREATE TABLE public.collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.collection_videos (
+  collection_id UUID NOT NULL REFERENCES public.collections(id) ON DELETE CASCADE,
+  video_id UUID NOT NULL REFERENCES public.videos(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (collection_id, video_id)
+);
+
+ALTER TABLE public.collections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.collection_videos ENABLE ROW LEVEL SECURITY;
+
+-- Same access model as the videos table
+CREATE POLICY "Anyone can view collections"
+ON public.collections
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can insert collections"
+ON public.collections
+FOR INSERT
+TO public
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can update collections"
+ON public.collections
+FOR UPDATE
+TO public
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can delete collections"
+ON public.collections
+FOR DELETE
+TO public
+USING (true);
+
+CREATE POLICY "Anyone can view collection videos"
+ON public.collection_videos
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can insert collection videos"
+ON public.collection_videos
+FOR INSERT
+TO public
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can update collection videos"
+ON public.collection_videos
+FOR UPDATE
+TO public
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can delete collection videos"
+ON public.collection_videos
+FOR DELETE
+TO public
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.handle_collections_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_collections_updated_at
+  BEFORE UPDATE ON public.collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_collections_updated_at();
+
+CREATE INDEX idx_collection_videos_video_id ON public.collection_videos(video_id);
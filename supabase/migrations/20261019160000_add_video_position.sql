@@ -0,0 +1,27 @@
+-- Manual library order. New videos default to 0 so they show first until placed.
+ALTER TABLE public.videos
+  ADD COLUMN position INTEGER NOT NULL DEFAULT 0;
+
+-- Start from the current newest-first order
+UPDATE public.videos AS v
+SET position = ordered.row_number
+FROM (
+  SELECT id, row_number() OVER (ORDER BY created_at DESC) AS row_number
+  FROM public.videos
+) AS ordered
+WHERE v.id = ordered.id;
+
+CREATE INDEX idx_videos_position ON public.videos(position);
+
+-- Save a whole new order in one statement: each video takes its 1-based index in the array
+CREATE OR REPLACE FUNCTION public.reorder_videos(video_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  UPDATE public.videos AS v
+  SET position = ordered.idx
+  FROM unnest(video_ids) WITH ORDINALITY AS ordered(id, idx)
+  WHERE v.id = ordered.id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.reorder_videos(UUID[]) TO anon, authenticated;
@@ -0,0 +1,23 @@
+-- The library is paginated, so a reorder only lists the videos that are loaded.
+-- Listed videos take the first positions in the given order; every other video
+-- follows in its existing order, so positions stay unique and contiguous.
+CREATE OR REPLACE FUNCTION public.reorder_videos(video_ids UUID[])
+RETURNS void AS $$
+BEGIN
+  UPDATE public.videos AS v
+  SET position = ordered.idx
+  FROM (
+    SELECT
+      videos.id,
+      row_number() OVER (
+        ORDER BY array_position(video_ids, videos.id) NULLS LAST, videos.position, videos.created_at DESC
+      ) AS idx
+    FROM public.videos
+  ) AS ordered
+  WHERE v.id = ordered.id
+    AND v.position IS DISTINCT FROM ordered.idx;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Sorting by date uses idx_videos_created_at from the initial schema
+CREATE INDEX idx_videos_name ON public.videos(name);
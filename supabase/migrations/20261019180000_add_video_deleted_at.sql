@@ -0,0 +1,5 @@
+-- Soft delete: trashed videos keep their Stream asset until they are purged
+ALTER TABLE public.videos
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_videos_deleted_at ON public.videos(deleted_at) WHERE deleted_at IS NOT NULL;
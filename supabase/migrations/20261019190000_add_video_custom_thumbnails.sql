@@ -0,0 +1,11 @@
+-- Designed poster images uploaded to the thumbnails bucket.
+-- thumbnail_path is the storage object; thumbnail_url then points at its public URL.
+ALTER TABLE public.videos
+  ADD COLUMN thumbnail_path TEXT;
+
+-- Posters are shown on published pages, so only signed-in admins may write them.
+-- Permissive policies combine with OR, so the earlier "Anyone can" write policies
+-- have to go for the "Authenticated users can" ones to take effect. Reads stay public.
+DROP POLICY IF EXISTS "Anyone can upload thumbnails" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can update thumbnails" ON storage.objects;
+DROP POLICY IF EXISTS "Anyone can delete thumbnails" ON storage.objects;
@@ -0,0 +1,5 @@
+-- Window of the video used for its animated hover preview, in seconds.
+-- NULL falls back to the app's defaults.
+ALTER TABLE public.videos
+  ADD COLUMN preview_start NUMERIC,
+  ADD COLUMN preview_duration NUMERIC;
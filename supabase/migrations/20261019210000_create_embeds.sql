@@ -0,0 +1,67 @@
+-- Published carousels served by the worker at /embed/:id. Videos are read at
+-- request time, so library changes show up without re-pasting the embed code.
+CREATE TABLE public.embeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  template_id TEXT NOT NULL DEFAULT 'glass-carousel',
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Follows the collection when set; video_ids is the fallback if the collection is deleted
+  collection_id UUID REFERENCES public.collections(id) ON DELETE SET NULL,
+  video_ids UUID[] NOT NULL DEFAULT '{}',
+  -- The admin who published it; the worker only trusts embeds with one
+  created_by UUID DEFAULT auth.uid() ALTER TABLE public.embeds ENABLE ROW LEVEL SECURITY;
+
+-- Only signed-in admins work with embeds; the worker reads them with the service role.
+-- The playback-token route trusts this table, so anonymous clients get no access at all.
+CREATE POLICY "Authenticated users can view embeds"
+ON public.embeds
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can insert embeds"
+ON public.embeds
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Authenticated users can update embeds"
+ON public.embeds
+FOR UPDATE
+TO authenticated
+USING (true)
+WITH CHECK (created_by IS NOT NULL);
+
+CREATE POLICY "Authenticated users can delete embeds"
+ON public.embeds
+FOR DELETE
+TO authenticated
+USING (true);
+
+embeds
+FOR UPDATE
+TO public
+USING (true)
+WITH CHECK (true);
+
+CREATE POLICY "Anyone can delete embeds"
+ON public.embeds
+FOR DELETE
+TO public
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.handle_embeds_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER update_embeds_updated_at
+  BEFORE UPDATE ON public.embeds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_embeds_updated_at();
+
+CREATE INDEX idx_embeds_collection_id ON public.embeds(collection_id);
+CREATE INDEX idx_embeds_video_ids ON public.embeds USING GIN (video_ids);
@@ -0,0 +1,13 @@
+import type { Config } from "tailwindcss";
+import baseConfig from "./tailwind.config";
+
+// Only what the <video-carousel> element renders, so its inlined stylesheet stays small
+export default {
+  ...baseConfig,
+  content: [
+    "./src/embed/**/*.{ts,tsx}",
+    "./src/components/VideoContainer.tsx",
+    "./src/components/ui/button.tsx",
+    "./src/components/ui/slider.tsx",
+  ],
+} satisfies Config;
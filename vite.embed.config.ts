@@ -0,0 +1,28 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react-swc";
+import path from "path";
+
+// Builds the <video-carousel> custom element as one classic script, served next to the app
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+  // Library builds leave process.env alone, and React reads it
+  define: {
+    "process.env.NODE_ENV": JSON.stringify("production"),
+  },
+  build: {
+    outDir: "dist/embed",
+    emptyOutDir: false,
+    copyPublicDir: false,
+    lib: {
+      entry: path.resolve(__dirname, "src/embed/video-carousel.tsx"),
+      name: "VideoCarousel",
+      formats: ["iife"],
+      fileName: () => "video-carousel.js",
+    },
+  },
+});
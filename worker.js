@@ -0,0 +1,559 @@
+// Cloudflare Worker for the video library admin
+//
+// Holds the Cloudflare Stream API token so the browser never has to.
+// Configure with:
+//   wrangler secret put STREAM_API_TOKEN
+//   wrangler secret put STREAM_ACCOUNT_ID
+//   wrangler secret put SUPABASE_SERVICE_ROLE_KEY
+// and set ALLOWED_ORIGINS and SUPABASE_URL in wrangler.toml.
+// Admin routes need a signed-in admin's Supabase access token and a request
+// from ALLOWED_ORIGINS; they refuse everything while that list is empty.
+// Playback tokens go to signed-in admins, or to anyone for videos in an embed an
+// admin published. EMBED_ORIGINS only limits which sites' pages may call for
+// them (Origin is easy to forge outside a browser); public requests are
+// refused while it is empty.
+//
+// A daily cron purges videos that have been in the Trash longer than
+// TRASH_RETENTION_DAYS.
+//
+// Published embeds are served from /embed/:id (an HTML page) and
+// /embed/:id.js (a loader script), rendered with the admin's templates from
+// the current library on every request. They use the same Supabase settings.
+
+import { STREAM_ALLOW, getTemplate, toTemplateVideo, withDefaultOptions } from './src/templates';
+
+const streamApiBase = (env) =>
+  `https://api.cloudflare.com/client/v4/accounts/${env.STREAM_ACCOUNT_ID}/stream`;
+
+const parseOrigins = (value) => (value || '').split(',').map((o) => o.trim()).filter(Boolean);
+
+// Only listed origins are allowed, so an empty list allows none
+const originAllowed = (request, origins) =>
+  origins.includes(request.headers.get('Origin') || '');
+
+const corsHeadersFor = (request, origins) => {
+  const allowOrigin = originAllowed(request, origins) ? request.headers.get('Origin') : origins[0] || 'null';
+
+  return {
+    'Access-Control-Allow-Origin': allowOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Max-Age': '86400',
+    'Vary': 'Origin',
+  };
+};
+
+const json = (body, corsHeaders, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Call the Stream API with the account token and unwrap its { success, result, errors } envelope
+const streamFetch = async (env, path, init = {}) => {
+  const response = await fetch(`${streamApiBase(env)}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${env.STREAM_API_TOKEN}`,
+      ...(init.headers || {}),
+    },
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || (data && data.success === false)) {
+    const message = data?.errors?.[0]?.message || `Stream API error: ${response.status}`;
+    const error = new Error(message);
+    error.status = response.status;
+    throw error;
+  }
+  return data?.result;
+};
+
+const encodeTusMetadata = (metadata) =>
+  Object.entries(metadata)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key} ${btoa(unescape(encodeURIComponent(String(value))))}`)
+    .join(',');
+
+// Reserve a video and return a one-time tus upload URL for it.
+// The browser uploads straight to that URL without any account credentials.
+const createDirectUpload = async (request, env, corsHeaders) => {
+  const { size, name, type } = await request.json();
+  if (!size || !name) {
+    return json({ error: 'Missing required fields: size, name' }, corsHeaders, 400);
+  }
+
+  const response = await fetch(`${streamApiBase(env)}?direct_user=true`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${env.STREAM_API_TOKEN}`,
+      'Tus-Resumable': '1.0.0',
+      'Upload-Length': String(size),
+      'Upload-Metadata': encodeTusMetadata({ name, filetype: type }),
+    },
+  });
+
+  if (!response.ok) {
+    const details = await response.text();
+    console.error('Direct upload creation failed:', response.status, details);
+    return json({ error: 'Failed to create upload URL' }, corsHeaders, 502);
+  }
+
+  return json({
+    uploadURL: response.headers.get('Location'),
+    uid: response.headers.get('stream-media-id'),
+  }, corsHeaders);
+};
+
+// Have Stream fetch a video from a public URL into the library
+const copyFromUrl = async (request, env, corsHeaders) => {
+  const { url, name } = await request.json();
+  if (!url) {
+    return json({ error: 'Missing required field: url' }, corsHeaders, 400);
+  }
+
+  const video = await streamFetch(env, '/copy', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, meta: name ? { name } : undefined }),
+  });
+  return json(video, corsHeaders);
+};
+
+// Cut a new Stream video out of an existing one
+const createClip = async (request, env, corsHeaders) => {
+  const { uid, start, end, name } = await request.json();
+  if (!uid || typeof start !== 'number' || typeof end !== 'number' || end <= start) {
+    return json({ error: 'A source uid and a start before end are required' }, corsHeaders, 400);
+  }
+
+  const clip = await streamFetch(env, '/clip', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      clippedFromVideoUID: uid,
+      startTimeSeconds: Math.floor(start),
+      endTimeSeconds: Math.ceil(end),
+      meta: name ? { name } : undefined,
+    }),
+  });
+  return json(clip, corsHeaders);
+};
+
+// Stream lists at most 1000 videos per request, newest first; page back by creation time
+const STREAM_LIST_PAGE_SIZE = 1000;
+
+const listAllVideos = async (env, corsHeaders) => {
+  const videos = [];
+  let end = null;
+
+  for (;;) {
+    const params = new URLSearchParams({ asc: 'false' });
+    if (end) params.set('end', end);
+
+    const page = await streamFetch(env, `?${params}`);
+    videos.push(...page);
+
+    if (page.length < STREAM_LIST_PAGE_SIZE) break;
+    end = page[page.length - 1].created;
+  }
+
+  // Consecutive pages can overlap on the boundary timestamp
+  const unique = Array.from(new Map(videos.map((video) => [video.uid, video])).values());
+  return json(unique, corsHeaders);
+};
+
+// Turn signed-URL playback on or off for a video
+const setRequireSignedUrls = async (request, env, corsHeaders, uid) => {
+  const { required } = await request.json();
+  const video = await streamFetch(env, `/${uid}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ uid, requireSignedURLs: !!required }),
+  });
+  return json(video, corsHeaders);
+};
+
+const DEFAULT_PLAYBACK_TOKEN_TTL_SECONDS = 3600;
+
+// Mint a short-lived token that stands in for the uid in playback and thumbnail URLs
+const createPlaybackToken = async (env, corsHeaders, uid) => {
+  const ttl = parseInt(env.PLAYBACK_TOKEN_TTL_SECONDS, 10) || DEFAULT_PLAYBACK_TOKEN_TTL_SECONDS;
+  const exp = Math.floor(Date.now() / 1000) + ttl;
+
+  const { token } = await streamFetch(env, `/${uid}/token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ exp }),
+  });
+
+  return new Response(JSON.stringify({ token, expiresAt: exp * 1000 }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+};
+
+// A video that is already gone from Stream counts as deleted, so purges can be retried
+const deleteStreamVideo = async (env, uid) => {
+  try {
+    await streamFetch(env, `/${uid}`, { method: 'DELETE' });
+  } catch (error) {
+    if (error.status !== 404) throw error;
+  }
+};
+
+const handleVideoRoute = async (request, env, corsHeaders, uid) => {
+  if (request.method === 'GET') {
+    return json(await streamFetch(env, `/${uid}`), corsHeaders);
+  }
+  if (request.method === 'DELETE') {
+    await deleteStreamVideo(env, uid);
+    return json({ success: true }, corsHeaders);
+  }
+  return json({ error: 'Method not allowed' }, corsHeaders, 405);
+};
+
+// Caption tracks are WebVTT files stored by Stream, one per language
+const handleCaptionRoute = async (request, env, corsHeaders, uid, language) => {
+  if (!language && request.method === 'GET') {
+    return json(await streamFetch(env, `/${uid}/captions`), corsHeaders);
+  }
+  if (language && request.method === 'PUT') {
+    const incoming = await request.formData();
+    const file = incoming.get('file');
+    if (!file) {
+      return json({ error: 'Missing caption file' }, corsHeaders, 400);
+    }
+
+    const form = new FormData();
+    form.append('file', file);
+    return json(await streamFetch(env, `/${uid}/captions/${language}`, { method: 'PUT', body: form }), corsHeaders);
+  }
+  if (language && request.method === 'DELETE') {
+    await streamFetch(env, `/${uid}/captions/${language}`, { method: 'DELETE' });
+    return json({ success: true }, corsHeaders);
+  }
+  return json({ error: 'Method not allowed' }, corsHeaders, 405);
+};
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Call Supabase's REST API with the service role key, which bypasses row level security
+const supabaseFetch = async (env, path, init = {}) => {
+  const response = await fetch(`${env.SUPABASE_URL}/rest/v1${path}`, {
+    ...init,
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      ...(init.headers || {}),
+    },
+  });
+
+  if (!response.ok) {
+    const error = new Error(`Supabase error: ${response.status} ${await response.text()}`);
+    error.status = response.status;
+    throw error;
+  }
+  return response.status === 204 ? null : response.json();
+};
+
+// The admin app sends the signed-in user's access token; Supabase Auth confirms it is current
+const getAdminUser = async (request, env) => {
+  const token = (request.headers.get('Authorization') || '').match(/^Bearer (.+)$/)?.[1];
+  if (!token || !env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return null;
+
+  const response = await fetch(`${env.SUPABASE_URL}/auth/v1/user`, {
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${token}`,
+    },
+  });
+  return response.ok ? response.json() : null;
+};
+
+// Public token requests are only served for videos that an embed published by a
+// signed-in admin plays. Only admins can write embeds, and each records who published it.
+const isPublishedVideo = async (env, uid) => {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) return false;
+
+  const [video] = await supabaseFetch(
+    env,
+    `/videos?uid=eq.${uid}&deleted_at=is.null&select=id,collection_videos(collection_id)`
+  );
+  if (!video) return false;
+
+  // Embeds follow their collection, and fall back to their own list once it is gone
+  const filters = [`and(collection_id.is.null,video_ids.cs.{${video.id}})`];
+  const collectionIds = video.collection_videos.map((member) => member.collection_id);
+  if (collectionIds.length > 0) filters.push(`collection_id.in.(${collectionIds.join(',')})`);
+
+  const embeds = await supabaseFetch(env, `/embeds?select=id&created_by=not.is.null&limit=1&or=${encodeURIComponent(`(${filters.join(',')})`)}`);
+  return embeds.length > 0;
+};
+
+// Uploaded posters live in the thumbnails storage bucket; a leftover file is only logged
+const removeStoredThumbnail = async (env, path) => {
+  const response = await fetch(`${env.SUPABASE_URL}/storage/v1/object/thumbnails/${path}`, {
+    method: 'DELETE',
+    headers: {
+      'apikey': env.SUPABASE_SERVICE_ROLE_KEY,
+      'Authorization': `Bearer ${env.SUPABASE_SERVICE_ROLE_KEY}`,
+    },
+  });
+  if (!response.ok && response.status !== 404) {
+    console.warn(`Failed to remove thumbnail ${path}: ${response.status}`);
+  }
+};
+
+// Delete videos whose retention period in the Trash has run out, from Stream first and then the table
+const purgeExpiredTrash = async (env) => {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.warn('Trash purge skipped: SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set');
+    return;
+  }
+
+  const retentionDays = Number(env.TRASH_RETENTION_DAYS) || DEFAULT_TRASH_RETENTION_DAYS;
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+  const expired = await supabaseFetch(
+    env,
+    `/videos?select=id,uid,thumbnail_path&deleted_at=lt.${encodeURIComponent(cutoff)}`
+  );
+
+  let purged = 0;
+  for (const video of expired) {
+    try {
+      await deleteStreamVideo(env, video.uid);
+      await supabaseFetch(env, `/videos?id=eq.${video.id}`, { method: 'DELETE' });
+      if (video.thumbnail_path) {
+        await removeStoredThumbnail(env, video.thumbnail_path);
+      }
+      purged += 1;
+    } catch (error) {
+      console.error(`Failed to purge ${video.uid}:`, error);
+    }
+  }
+  console.log(`Trash purge: ${purged} of ${expired.length} expired videos deleted`);
+};
+
+// Hosted embeds are cached briefly so library changes reach host pages within a minute
+const EMBED_CACHE_SECONDS = 60;
+const EMBED_VIDEO_SELECT = '*,video_captions(language,label)';
+
+const fetchEmbed = async (env, id) => {
+  const rows = await supabaseFetch(env, `/embeds?id=eq.${id}&created_by=not.is.null&select=*`);
+  return rows[0] || null;
+};
+
+// The embed's videos in play order: its collection's current members, or its own list
+const fetchEmbedVideos = async (env, embed) => {
+  let videos;
+  if (embed.collection_id) {
+    const members = await supabaseFetch(
+      env,
+      `/collection_videos?collection_id=eq.${embed.collection_id}&select=position,videos(${EMBED_VIDEO_SELECT})&order=position`
+    );
+    videos = members.map((member) => member.videos);
+  } else if (embed.video_ids.length > 0) {
+    const rows = await supabaseFetch(env, `/videos?id=in.(${embed.video_ids.join(',')})&select=${EMBED_VIDEO_SELECT}`);
+    const byId = new Map(rows.map((video) => [video.id, video]));
+    videos = embed.video_ids.map((id) => byId.get(id));
+  } else {
+    videos = [];
+  }
+  return videos.filter((video) => video && !video.deleted_at);
+};
+
+// Lets the loader script size its iframe to the rendered content
+const resizeReporter = (id) => `<script>
+(function () {
+    var report = function () {
+        parent.postMessage({ type: 'video-embed:resize', id: '${id}', height: document.documentElement.scrollHeight }, '*');
+    };
+    new ResizeObserver(report).observe(document.documentElement);
+})();
+</script>`;
+
+const embedPageHeaders = (env) => {
+  const headers = {
+    'Content-Type': 'text/html; charset=UTF-8',
+    'Cache-Control': `public, max-age=${EMBED_CACHE_SECONDS}`,
+  };
+  // Only the sites allowed to play private videos may frame the page, if any are listed
+  const embedOrigins = parseOrigins(env.EMBED_ORIGINS);
+  if (embedOrigins.length > 0) {
+    headers['Content-Security-Policy'] = `frame-ancestors ${embedOrigins.join(' ')}`;
+  }
+  return headers;
+};
+
+const renderEmbedPage = async (env, url, embed) => {
+  const videos = await fetchEmbedVideos(env, embed);
+  const template = getTemplate(embed.template_id);
+  const streamDomain = `customer-${env.STREAM_CUSTOMER_CODE}.cloudflarestream.com`;
+
+  const html = videos.length === 0
+    ? '<!DOCTYPE html><html lang="en"><head><meta charset="UTF-8"></head><body></body></html>'
+    : template.render({
+      videos: videos.map((video) => toTemplateVideo(video, streamDomain)),
+      streamDomain,
+      tokenEndpoint: `${url.origin}/api/playback/token/`,
+      options: withDefaultOptions({ ...template.defaults, ...embed.options }),
+    });
+
+  return new Response(html.replace('</body>', `${resizeReporter(embed.id)}\n</body>`), {
+    headers: embedPageHeaders(env),
+  });
+};
+
+// Replaces its own <script> tag with an iframe that follows the page's height
+const renderEmbedLoader = (url, embed) => {
+  const src = `${url.origin}/embed/${embed.id}`;
+  const script = `(function () {
+    var script = document.currentScript;
+    if (!script) return;
+    var frame = document.createElement('iframe');
+    frame.src = ${JSON.stringify(src)};
+    frame.title = ${JSON.stringify(embed.name)};
+    frame.loading = 'lazy';
+    frame.setAttribute('allow', ${JSON.stringify(STREAM_ALLOW)});
+    frame.setAttribute('allowfullscreen', '');
+    frame.style.cssText = 'display: block; width: 100%; height: 600px; border: none;';
+    window.addEventListener('message', function (event) {
+        if (event.source !== frame.contentWindow || !event.data || event.data.type !== 'video-embed:resize') return;
+        frame.style.height = Math.ceil(event.data.height) + 'px';
+    });
+    script.parentNode.insertBefore(frame, script);
+})();
+`;
+
+  return new Response(script, {
+    headers: {
+      'Content-Type': 'application/javascript; charset=UTF-8',
+      'Cache-Control': `public, max-age=${EMBED_CACHE_SECONDS}`,
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+};
+
+const handleEmbedRoute = async (env, url, id, loader) => {
+  if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+    return new Response('Embeds need SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY', { status: 503 });
+  }
+
+  const embed = await fetchEmbed(env, id);
+  if (!embed) {
+    return new Response('Embed not found', { status: 404 });
+  }
+  return loader ? renderEmbedLoader(url, embed) : renderEmbedPage(env, url, embed);
+};
+
+export default {
+  async scheduled(event, env, ctx) {
+    ctx.waitUntil(purgeExpiredTrash(env));
+  },
+
+  async fetch(request, env) {
+    const url = new URL(request.url);
+    const isPlaybackRoute = url.pathname.startsWith('/api/playback/');
+    const allowedOrigins = parseOrigins(env.ALLOWED_ORIGINS);
+    const embedOrigins = parseOrigins(env.EMBED_ORIGINS);
+    // Hosted embed pages request playback tokens from the worker's own origin
+    const playbackOrigins = embedOrigins.length > 0 ? [...embedOrigins, url.origin] : [];
+    const corsHeaders = corsHeadersFor(request, isPlaybackRoute ? [...allowedOrigins, ...playbackOrigins] : allowedOrigins);
+
+    // Handle CORS preflight
+    if (request.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders });
+    }
+
+    // Health check
+    if (url.pathname === '/health') {
+      return json({ status: 'ok' }, corsHeaders);
+    }
+
+    // Hosted embeds: the page itself, or a loader script that inserts it
+    const embedMatch = url.pathname.match(/^\/embed\/([0-9a-f-]{36})(\.js)?$/);
+    if (embedMatch && request.method === 'GET') {
+      try {
+        return await handleEmbedRoute(env, url, embedMatch[1], !!embedMatch[2]);
+      } catch (error) {
+        console.error('Embed request failed:', error);
+        return new Response('Failed to load embed', { status: 500 });
+      }
+    }
+
+    // Playback tokens for private videos, requested by the admin app and embedded carousels
+    const tokenMatch = url.pathname.match(/^\/api\/playback\/token\/([a-zA-Z0-9]+)$/);
+    if (tokenMatch && request.method === 'GET') {
+      try {
+        // A session authenticates an admin; anyone else only gets tokens for published videos.
+        // The Origin check keeps other sites' pages out but proves nothing on its own.
+        const isAdmin = !!(await getAdminUser(request, env));
+        if (!isAdmin) {
+          if (!originAllowed(request, playbackOrigins)) {
+            return json({ error: 'Forbidden' }, corsHeaders, 403);
+          }
+          if (!(await isPublishedVideo(env, tokenMatch[1]))) {
+            return json({ error: 'Video is not in a published embed' }, corsHeaders, 404);
+          }
+        }
+        return await createPlaybackToken(env, corsHeaders, tokenMatch[1]);
+      } catch (error) {
+        console.error('Playback token request failed:', error);
+        return json({ error: 'Failed to create playback token' }, corsHeaders, error.status || 500);
+      }
+    }
+
+    if (url.pathname.startsWith('/api/stream/')) {
+      if (allowedOrigins.length === 0) {
+        return json({ error: 'ALLOWED_ORIGINS is not configured' }, corsHeaders, 403);
+      }
+      if (!originAllowed(request, allowedOrigins)) {
+        return json({ error: 'Forbidden' }, corsHeaders, 403);
+      }
+
+      try {
+        if (!(await getAdminUser(request, env))) {
+          return json({ error: 'Sign in required' }, corsHeaders, 401);
+        }
+
+        if (url.pathname === '/api/stream/direct-upload' && request.method === 'POST') {
+          return await createDirectUpload(request, env, corsHeaders);
+        }
+
+        if (url.pathname === '/api/stream/copy' && request.method === 'POST') {
+          return await copyFromUrl(request, env, corsHeaders);
+        }
+
+        if (url.pathname === '/api/stream/clip' && request.method === 'POST') {
+          return await createClip(request, env, corsHeaders);
+        }
+
+        if (url.pathname === '/api/stream/videos' && request.method === 'GET') {
+          return await listAllVideos(env, corsHeaders);
+        }
+
+        const signedMatch = url.pathname.match(/^\/api\/stream\/videos\/([a-zA-Z0-9]+)\/signed-urls$/);
+        if (signedMatch && request.method === 'POST') {
+          return await setRequireSignedUrls(request, env, corsHeaders, signedMatch[1]);
+        }
+
+        const captionMatch = url.pathname.match(/^\/api\/stream\/videos\/([a-zA-Z0-9]+)\/captions(?:\/([a-zA-Z-]+))?$/);
+        if (captionMatch) {
+          return await handleCaptionRoute(request, env, corsHeaders, captionMatch[1], captionMatch[2]);
+        }
+
+        const videoMatch = url.pathname.match(/^\/api\/stream\/videos\/([a-zA-Z0-9]+)$/);
+        if (videoMatch) {
+          return await handleVideoRoute(request, env, corsHeaders, videoMatch[1]);
+        }
+      } catch (error) {
+        console.error('Stream request failed:', error);
+        return json({ error: error.message || 'Stream request failed' }, corsHeaders, error.status || 500);
+      }
+    }
+
+    return new Response('Not Found', { status: 404, headers: corsHeaders });
+  },
+};